@@ -5,6 +5,7 @@ import { useState, useEffect } from "react"
 import { ArrowPath, DocumentText, SquareTwoStack, ListBullet, ArrowUpRightOnBox } from "@medusajs/icons"
 // @ts-ignore
 import logo from "../../assets/logo.png"
+import { getStatusLabel, NormalizedStatus, normalizeStatus } from "../../modules/shiprocket-tracking/statuses"
 
 /**
  * Shiprocket Documents Widget
@@ -114,56 +115,16 @@ const ShiprocketDocumentsWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
         }
     }
 
-    const humanizeStatus = (text: string) => {
-        if (!text) return ""
-        const s = text.toUpperCase()
-
-        // Common Shiprocket merged statuses mapping
-        const validStatuses: Record<string, string> = {
-            "READYFORRECEIVE": "Ready For Receive",
-            "PICKUPCANCELLED": "Pickup Cancelled",
-            "OUTFORPICKUP": "Out For Pickup",
-            "PICKUPGENERATED": "Pickup Generated",
-            "PICKUPSCHEDULED": "Pickup Scheduled",
-            "PICKUPQUEUED": "Pickup Queued",
-            "PICKUPRESCHEDULED": "Pickup Rescheduled",
-            "PICKUPPICKEDUP": "Pickup Picked Up",
-            "AWBASSIGNED": "AWB Assigned",
-            "LABELGENERATED": "Label Generated",
-            "MANIFESTGENERATED": "Manifest Generated",
-            "INTRANSIT": "In Transit",
-            "OUTFORDELIVERY": "Out For Delivery",
-            "DELIVERED": "Delivered",
-            "CANCELLED": "Cancelled",
-            "RTOINITIATED": "RTO Initiated",
-            "RTODELIVERED": "RTO Delivered",
-            "RTOACKNOWLEDGED": "RTO Acknowledged",
-            "LOST": "Lost",
-            "DAMAGED": "Damaged",
-            "DESTROYED": "Destroyed",
-            "DISPOSEOFF": "Dispose Off"
-        }
-
-        if (validStatuses[s]) return validStatuses[s]
-
-        // Fallback: Title Case replacing underscores/dashes, handling simple spacing if possible
-        return text
-            .replace(/([A-Z])/g, ' $1') // simple space insertion if camelCase (unlikely here but safe)
-            .replace(/[_-]/g, ' ')
-            .trim()
-            .split(' ')
-            .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-            .join(' ')
-    }
-
-    const getStatusColor = (status: string) => {
-        const s = status?.toUpperCase() || ""
-        if (s.includes("DELIVER")) return "green"
-        if (s.includes("TRANSIT") || s.includes("SHIPPED")) return "blue"
-        if (s.includes("PICKUP") || s.includes("PICKED")) return "purple"
-        if (s.includes("RTO") || s.includes("RETURN")) return "orange"
-        if (s.includes("CANCEL") || s.includes("ERROR") || s.includes("EXCEPTION")) return "red"
-        return "grey"
+    const statusColors: Record<NormalizedStatus, "green" | "blue" | "purple" | "orange" | "red" | "grey"> = {
+        created: "grey",
+        pickup: "purple",
+        in_transit: "blue",
+        out_for_delivery: "blue",
+        delivered: "green",
+        ndr: "orange",
+        rto: "orange",
+        cancelled: "red",
+        lost: "red",
     }
 
     if (!shiprocketFulfillment) {
@@ -190,7 +151,10 @@ const ShiprocketDocumentsWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
         }
     }
 
-    const humanStatus = humanizeStatus(displayStatus)
+    const humanStatus = getStatusLabel(displayStatus)
+    const normalizedStatus: NormalizedStatus | null = displayStatus === tracking?.current_status
+        ? tracking?.normalized_status || normalizeStatus(tracking?.current_status_id, displayStatus)
+        : normalizeStatus(null, displayStatus)
 
     return (
         <Container className="p-0 overflow-hidden border border-ui-border-base bg-ui-bg-base/50 shadow-elevation-card-rest">
@@ -210,7 +174,7 @@ const ShiprocketDocumentsWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
                     </div>
                 </div>
                 {humanStatus && (
-                    <Badge color={getStatusColor(humanStatus)} size="xsmall" className="font-bold px-3 py-1 rounded-full uppercase tracking-tighter text-[10px]">
+                    <Badge color={normalizedStatus ? statusColors[normalizedStatus] : "grey"} size="xsmall" className="font-bold px-3 py-1 rounded-full uppercase tracking-tighter text-[10px]">
                         {humanStatus}
                     </Badge>
                 )}
@@ -323,7 +287,7 @@ const ShiprocketDocumentsWidget = ({ data }: DetailWidgetProps<AdminOrder>) => {
                                 <div className="pb-10 pt-0 group-last:pb-2">
                                     <div className="flex flex-col gap-y-1.5">
                                         <Text size="small" weight="plus" className={`leading-tight uppercase tracking-tight ${index === 0 ? 'text-ui-fg-base font-bold' : 'text-ui-fg-subtle'}`}>
-                                            {humanizeStatus(scan.activity || scan.status || "Status Update")}
+                                            {getStatusLabel(scan.activity || scan.status || "Status Update")}
                                         </Text>
                                         <div className="flex items-center gap-x-3 text-ui-fg-muted font-medium">
                                             <div className="flex items-center gap-x-1 text-[11px] whitespace-nowrap bg-ui-bg-component px-1.5 py-0.5 rounded border border-ui-border-base">
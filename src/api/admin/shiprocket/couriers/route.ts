@@ -0,0 +1,35 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { createShiprocketClientFromEnv } from "../../../../providers/shiprocket/client/from-env"
+
+/**
+ * Admin Couriers API
+ *
+ * URL: GET /admin/shiprocket/couriers
+ *
+ * Lists the couriers enabled on the Shiprocket account. Use their ids to build the
+ * `allowed_courier_ids` / `blocked_courier_ids` lists in a shipping option's `data`.
+ */
+export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    try {
+        const client = createShiprocketClientFromEnv()
+
+        try {
+            const couriers = await client.listCouriers()
+
+            return res.status(200).json({
+                success: true,
+                couriers,
+                count: couriers.length,
+            })
+        } finally {
+            client.dispose()
+        }
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin couriers error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to list couriers"
+        })
+    }
+}
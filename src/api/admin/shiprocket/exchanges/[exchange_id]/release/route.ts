@@ -0,0 +1,33 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { releaseExchange } from "../../../../../../lib/exchanges"
+
+/**
+ * Admin Exchange Release API
+ *
+ * URL: POST /admin/shiprocket/exchanges/:exchange_id/release
+ *
+ * Ships the held replacements of an exchange right away, without waiting for the reverse
+ * pickup: assigns their AWBs, generates labels and requests pickups.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { exchange_id } = req.params
+
+    try {
+        const shipments = await releaseExchange(req.scope, exchange_id)
+        const failed = shipments.filter((shipment) => shipment.error)
+
+        return res.status(failed.length ? 409 : 200).json({
+            success: !failed.length,
+            shipments,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin exchange release error: ${error.message}`, error)
+        const status = error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND ? 404 : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to release exchange"
+        })
+    }
+}
@@ -0,0 +1,114 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { registerExchange } from "../../../../../lib/exchanges"
+import { EXCHANGE_HOLDS, ExchangeHold, isExchangeHold } from "../../../../../providers/shiprocket/utils/exchanges"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+function toLeg(fulfillment: any) {
+    const data = (fulfillment.data || {}) as Record<string, any>
+    return {
+        fulfillment_id: fulfillment.id,
+        status: data.is_return ? data.return_status : data.stage,
+        awb: data.awb || null,
+        courier_name: data.courier_name || null,
+        tracking_url: data.tracking_url || null,
+        label_url: data.label_url || null,
+        last_error: data.last_error || null,
+        canceled_at: fulfillment.canceled_at || null,
+    }
+}
+
+/**
+ * Admin Exchange API
+ *
+ * URL: GET /admin/shiprocket/exchanges/:exchange_id
+ *
+ * Returns both legs of an order exchange: the reverse pickup of the returned items and
+ * the forward shipments of the replacements, with the hold between them.
+ */
+export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { exchange_id } = req.params
+
+    try {
+        const trackingService = req.scope.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+        const exchange = await trackingService.findExchangeByExchangeId(exchange_id)
+
+        if (!exchange) {
+            return res.status(404).json({
+                success: false,
+                error: "Exchange not found"
+            })
+        }
+
+        const fulfillmentIds = [
+            exchange.return_fulfillment_id,
+            ...((exchange.forward_fulfillment_ids || []) as string[]),
+        ].filter(Boolean)
+        const fulfillments = fulfillmentIds.length
+            ? await req.scope.resolve(Modules.FULFILLMENT).listFulfillments({ id: fulfillmentIds })
+            : []
+        const byId = new Map(fulfillments.map((fulfillment: any) => [fulfillment.id, fulfillment]))
+        const reverse = exchange.return_fulfillment_id ? byId.get(exchange.return_fulfillment_id) : undefined
+
+        return res.status(200).json({
+            success: true,
+            exchange: {
+                exchange_id: exchange.exchange_id,
+                order_id: exchange.medusa_order_id,
+                return_id: exchange.return_id,
+                hold: exchange.hold,
+                reverse_status: exchange.reverse_status,
+                released_at: exchange.released_at,
+                reverse: reverse ? toLeg(reverse) : null,
+                forward: ((exchange.forward_fulfillment_ids || []) as string[])
+                    .map((id) => byId.get(id))
+                    .filter(Boolean)
+                    .map(toLeg),
+            },
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin exchange error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to fetch exchange"
+        })
+    }
+}
+
+/**
+ * URL: POST /admin/shiprocket/exchanges/:exchange_id
+ * Body: { hold?: "none" | "picked_up" | "qc_passed" }
+ *
+ * Registers an exchange with Shiprocket, or retries its reverse pickup. `hold` changes when
+ * the replacement ships; "none" ships replacements already on hold.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { exchange_id } = req.params
+    const { hold } = (req.body || {}) as { hold?: ExchangeHold }
+
+    if (hold !== undefined && !isExchangeHold(hold)) {
+        return res.status(400).json({
+            success: false,
+            error: `hold must be one of: ${EXCHANGE_HOLDS.join(", ")}`
+        })
+    }
+
+    try {
+        const exchange = await registerExchange(req.scope, exchange_id, { hold })
+
+        return res.status(200).json({
+            success: true,
+            exchange,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin exchange error: ${error.message}`, error)
+        const status = error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND ? 404 : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to register exchange"
+        })
+    }
+}
@@ -0,0 +1,76 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { printBulkLabels } from "../../../../lib/labels"
+import { isLabelFormat, LABEL_FORMATS } from "../../../../providers/shiprocket/utils/labels"
+
+// Well under the 8 KB total most proxies allow for response headers
+const MAX_SKIPPED_HEADER_LENGTH = 4000
+
+/**
+ * Admin Bulk Label API
+ *
+ * URL: POST /admin/shiprocket/labels
+ * Body: { fulfillment_ids: string[], format?: "a4" | "4x6" }
+ *
+ * Generates the labels of many fulfillments in one Shiprocket call and responds with a
+ * single PDF, sorted by pickup location and courier. "4x6" prints one label per page for
+ * thermal printers, "a4" (default) tiles four labels per sheet. Fulfillments left out of
+ * the PDF are counted in `X-Shiprocket-Skipped-Count` and listed in the `X-Shiprocket-Skipped`
+ * header as `id:reason` pairs, up to a few KB so large batches stay under proxy header limits.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { fulfillment_ids, format = "a4" } = (req.body || {}) as {
+        fulfillment_ids?: string[]
+        format?: string
+    }
+
+    if (!Array.isArray(fulfillment_ids) || !fulfillment_ids.length) {
+        return res.status(400).json({
+            success: false,
+            error: "fulfillment_ids must be a non-empty array"
+        })
+    }
+    if (!isLabelFormat(format)) {
+        return res.status(400).json({
+            success: false,
+            error: `format must be one of: ${LABEL_FORMATS.join(", ")}`
+        })
+    }
+
+    try {
+        const { pdf, printed, skipped } = await printBulkLabels(req.scope, fulfillment_ids, format)
+
+        const date = new Date().toISOString().split("T")[0]
+        res.setHeader("Content-Type", "application/pdf")
+        res.setHeader("Content-Disposition", `attachment; filename="shiprocket-labels-${date}-${format}.pdf"`)
+        res.setHeader("X-Shiprocket-Printed", String(printed.length))
+        if (skipped.length) {
+            let header = ""
+            for (const entry of skipped) {
+                const pair = `${entry.fulfillment_id}:${encodeURIComponent(entry.reason)}`
+                const next = header ? `${header},${pair}` : pair
+                if (next.length > MAX_SKIPPED_HEADER_LENGTH) break
+                header = next
+            }
+
+            res.setHeader("X-Shiprocket-Skipped-Count", String(skipped.length))
+            if (header) {
+                res.setHeader("X-Shiprocket-Skipped", header)
+            }
+            req.scope.resolve("logger").warn(
+                `Shiprocket: ${skipped.length} label(s) left out of the bulk PDF: ` +
+                skipped.map((entry) => `${entry.fulfillment_id} (${entry.reason})`).join(", ")
+            )
+        }
+
+        return res.status(200).send(Buffer.from(pdf))
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin bulk label error: ${error.message}`, error)
+        const status = error instanceof MedusaError && error.type === MedusaError.Types.NOT_ALLOWED ? 400 : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to print labels"
+        })
+    }
+}
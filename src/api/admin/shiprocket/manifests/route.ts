@@ -0,0 +1,45 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { generateDailyManifests } from "../../../../lib/manifests"
+
+/**
+ * Admin Daily Manifest API
+ *
+ * URL: POST /admin/shiprocket/manifests
+ * Body: { date?: "YYYY-MM-DD", pickup_location?: string, dry_run?: boolean }
+ *
+ * Generates the end-of-day manifests: shipments due for pickup by `date` (default today)
+ * that aren't on a manifest yet are grouped by pickup location and courier, with one
+ * manifest per group. Pass `dry_run: true` to preview the groups.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { date, pickup_location, dry_run } = (req.body || {}) as {
+        date?: string
+        pickup_location?: string
+        dry_run?: boolean
+    }
+
+    try {
+        const manifests = await generateDailyManifests(req.scope, {
+            date,
+            pickup_location,
+            dry_run: !!dry_run,
+        })
+
+        const failed = manifests.filter((manifest) => manifest.error).length
+        return res.status(200).json({
+            success: failed === 0,
+            manifests,
+            generated: manifests.length - failed,
+            failed,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin manifest error: ${error.message}`, error)
+        const status = error instanceof MedusaError && error.type === MedusaError.Types.INVALID_DATA ? 400 : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to generate manifests"
+        })
+    }
+}
@@ -0,0 +1,62 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { takeNdrAction } from "../../../../../lib/ndr"
+import { isNdrActionType, NDR_ACTION_TYPES, NdrActionType } from "../../../../../providers/shiprocket/utils/ndr"
+
+/**
+ * Admin NDR Action API
+ *
+ * URL: POST /admin/shiprocket/ndr/:awb
+ * Body: { action: "reattempt" | "rto", proposed_date?: "YYYY-MM-DD", address_1?, address_2?, phone?, comments? }
+ *
+ * Acts on a failed delivery: asks the courier to attempt delivery again, optionally on
+ * `proposed_date` or at a corrected address and phone, or to return the shipment to origin.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { awb } = req.params
+    const body = (req.body || {}) as {
+        action?: NdrActionType
+        proposed_date?: string
+        address_1?: string
+        address_2?: string
+        phone?: string
+        comments?: string
+    }
+
+    if (!isNdrActionType(body.action)) {
+        return res.status(400).json({
+            success: false,
+            error: `action must be one of: ${NDR_ACTION_TYPES.join(", ")}`
+        })
+    }
+
+    try {
+        const ndr = await takeNdrAction(req.scope, awb, {
+            action: body.action,
+            requested_by: "admin",
+            ...(body.action === "reattempt" && {
+                proposed_date: body.proposed_date,
+                address_1: body.address_1,
+                address_2: body.address_2,
+                phone: body.phone,
+            }),
+            comments: body.comments,
+        })
+
+        return res.status(200).json({
+            success: true,
+            ndr,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin NDR action error: ${error.message}`, error)
+        const status = !(error instanceof MedusaError) ? 500
+            : error.type === MedusaError.Types.NOT_FOUND ? 404
+                : error.type === MedusaError.Types.NOT_ALLOWED || error.type === MedusaError.Types.INVALID_DATA ? 400
+                    : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to act on NDR"
+        })
+    }
+}
@@ -0,0 +1,54 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Admin NDR API
+ *
+ * URL: GET /admin/shiprocket/ndr?status=open
+ *
+ * Lists shipments with failed delivery attempts (NDR) awaiting an action, or with the given
+ * NDR `status` (open, reattempt_requested, rto_requested, closed), most recent first.
+ */
+export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const status = (req.query.status as string | undefined) || undefined
+    const limit = Math.min(Number(req.query.limit) || 50, 200)
+    const offset = Number(req.query.offset) || 0
+
+    try {
+        const trackingService = req.scope.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+        const [trackings, count] = await trackingService.listAndCountShiprocketTrackings({
+            ndr_status: status ? status.split(",") : ["open", "reattempt_requested"],
+        }, {
+            take: limit,
+            skip: offset,
+            order: { ndr_last_attempt_at: "DESC" },
+        })
+
+        return res.status(200).json({
+            success: true,
+            ndrs: trackings.map((tracking: any) => ({
+                awb: tracking.awb,
+                medusa_order_id: tracking.medusa_order_id,
+                medusa_fulfillment_id: tracking.medusa_fulfillment_id,
+                courier_name: tracking.courier_name,
+                current_status: tracking.current_status,
+                ndr_status: tracking.ndr_status,
+                ndr_attempts: tracking.ndr_attempts,
+                ndr_reason: tracking.ndr_reason,
+                ndr_last_attempt_at: tracking.ndr_last_attempt_at,
+                ndr_actions: tracking.ndr_actions || [],
+            })),
+            count,
+            limit,
+            offset,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin NDR list error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to list NDRs"
+        })
+    }
+}
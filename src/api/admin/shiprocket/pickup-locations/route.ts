@@ -0,0 +1,98 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { createShiprocketClient } from "../../../../lib/client"
+import type { ShiprocketCreatePickupLocationRequest } from "../../../../providers/shiprocket/client/types"
+
+const REQUIRED_FIELDS: (keyof ShiprocketCreatePickupLocationRequest)[] = [
+    "pickup_location",
+    "name",
+    "email",
+    "phone",
+    "address",
+    "city",
+    "state",
+    "country",
+    "pin_code",
+]
+
+/**
+ * Admin Pickup Locations API
+ *
+ * URL: GET /admin/shiprocket/pickup-locations
+ *
+ * Lists all pickup addresses registered on the Shiprocket account.
+ */
+export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    try {
+        const client = createShiprocketClient(req.scope)
+
+        try {
+            const pickupLocations = await client.getPickupLocations()
+
+            return res.status(200).json({
+                success: true,
+                pickup_locations: pickupLocations,
+                count: pickupLocations.length,
+            })
+        } finally {
+            client.dispose()
+        }
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin pickup locations error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to list pickup locations"
+        })
+    }
+}
+
+/**
+ * URL: POST /admin/shiprocket/pickup-locations
+ *
+ * Creates a new pickup address in Shiprocket.
+ * Body: pickup_location (nickname), name, email, phone, address, address_2?, city, state, country, pin_code
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const body = (req.body || {}) as Partial<ShiprocketCreatePickupLocationRequest>
+
+    const missing = REQUIRED_FIELDS.filter((field) => !body[field])
+    if (missing.length) {
+        return res.status(400).json({
+            success: false,
+            error: `Missing required fields: ${missing.join(", ")}`
+        })
+    }
+
+    try {
+        const client = createShiprocketClient(req.scope)
+
+        try {
+            const pickupLocation = await client.createPickupLocation({
+                pickup_location: body.pickup_location!,
+                name: body.name!,
+                email: body.email!,
+                phone: String(body.phone),
+                address: body.address!,
+                address_2: body.address_2 || "",
+                city: body.city!,
+                state: body.state!,
+                country: body.country!,
+                pin_code: String(body.pin_code),
+            })
+
+            return res.status(201).json({
+                success: true,
+                pickup_location: pickupLocation,
+            })
+        } finally {
+            client.dispose()
+        }
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin create pickup location error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to create pickup location"
+        })
+    }
+}
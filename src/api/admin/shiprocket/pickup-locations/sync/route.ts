@@ -0,0 +1,118 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { Modules } from "@medusajs/framework/utils"
+import { createShiprocketClient } from "../../../../../lib/client"
+import { PICKUP_LOCATION_METADATA_KEY } from "../../../../../providers/shiprocket/client/types"
+import { pickupNickname } from "../../../../../providers/shiprocket/utils"
+
+/**
+ * Admin Pickup Location Sync API
+ *
+ * URL: POST /admin/shiprocket/pickup-locations/sync
+ * Body: { email?: string, dry_run?: boolean }
+ *
+ * Creates a Shiprocket pickup location for every Medusa stock location that has an address
+ * but no pickup mapping yet, and stores the nickname in the stock location metadata
+ * (`shiprocket_pickup_location`). Stock locations whose name already matches a Shiprocket
+ * nickname are linked without creating anything.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { email, dry_run } = (req.body || {}) as { email?: string; dry_run?: boolean }
+    const logger = req.scope.resolve("logger")
+
+    try {
+        const stockLocationService = req.scope.resolve(Modules.STOCK_LOCATION)
+        const client = createShiprocketClient(req.scope)
+
+        try {
+            client.clearPickupLocationsCache()
+            const [stockLocations, pickupLocations] = await Promise.all([
+                stockLocationService.listStockLocations({}, { relations: ["address"] }),
+                client.getPickupLocations(),
+            ])
+
+            const nicknames = new Map(
+                pickupLocations.map((loc) => [loc.pickup_location.toLowerCase(), loc.pickup_location])
+            )
+
+            const results: {
+                stock_location_id: string
+                pickup_location?: string
+                status: "mapped" | "linked" | "created" | "skipped" | "failed"
+                reason?: string
+            }[] = []
+
+            for (const location of stockLocations) {
+                const mapped = location.metadata?.[PICKUP_LOCATION_METADATA_KEY] as string | undefined
+                if (mapped) {
+                    results.push({ stock_location_id: location.id, pickup_location: mapped, status: "mapped" })
+                    continue
+                }
+
+                const address = location.address
+                if (!address?.address_1 || !address?.city || !address?.postal_code) {
+                    results.push({ stock_location_id: location.id, status: "skipped", reason: "No address" })
+                    continue
+                }
+
+                const nickname = pickupNickname(location.name)
+                const existing = nicknames.get(location.name.toLowerCase()) || nicknames.get(nickname)
+
+                if (dry_run) {
+                    results.push({
+                        stock_location_id: location.id,
+                        pickup_location: existing || nickname,
+                        status: existing ? "linked" : "created",
+                    })
+                    continue
+                }
+
+                try {
+                    if (!existing) {
+                        await client.createPickupLocation({
+                            pickup_location: nickname,
+                            name: location.name,
+                            email: email || process.env.SHIPROCKET_EMAIL || "",
+                            phone: String(address.phone || ""),
+                            address: address.address_1,
+                            address_2: address.address_2 || "",
+                            city: address.city,
+                            state: address.province || "",
+                            country: address.country_code?.toUpperCase() === "IN" ? "India" : address.country_code,
+                            pin_code: address.postal_code,
+                        })
+                    }
+
+                    await stockLocationService.updateStockLocations(location.id, {
+                        metadata: {
+                            ...(location.metadata || {}),
+                            [PICKUP_LOCATION_METADATA_KEY]: existing || nickname,
+                        },
+                    })
+
+                    results.push({
+                        stock_location_id: location.id,
+                        pickup_location: existing || nickname,
+                        status: existing ? "linked" : "created",
+                    })
+                } catch (err: any) {
+                    logger.warn(`Shiprocket pickup sync failed for stock location ${location.id}: ${err.message}`)
+                    results.push({ stock_location_id: location.id, status: "failed", reason: err.message })
+                }
+            }
+
+            return res.status(200).json({
+                success: true,
+                dry_run: !!dry_run,
+                results,
+            })
+        } finally {
+            client.dispose()
+        }
+    } catch (error: any) {
+        logger.error(`Admin pickup location sync error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to sync pickup locations"
+        })
+    }
+}
@@ -0,0 +1,59 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { createShiprocketClient } from "../../../../../lib/client"
+
+/**
+ * Admin Pickup Location Verification API
+ *
+ * URL: POST /admin/shiprocket/pickup-locations/verify
+ * Body: { pickup_location: string }
+ *
+ * Checks that a pickup nickname exists on the Shiprocket account, whether it is active
+ * and whether its phone number has been verified (Shiprocket won't schedule pickups otherwise).
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { pickup_location } = (req.body || {}) as { pickup_location?: string }
+
+    if (!pickup_location) {
+        return res.status(400).json({
+            success: false,
+            error: "pickup_location is required"
+        })
+    }
+
+    try {
+        const client = createShiprocketClient(req.scope)
+
+        try {
+            // Always read fresh data - the address may have just been verified in Shiprocket
+            client.clearPickupLocationsCache()
+            const [location] = await client.getPickupLocations(pickup_location)
+
+            if (!location) {
+                return res.status(404).json({
+                    success: false,
+                    error: `Pickup location "${pickup_location}" not found in Shiprocket`
+                })
+            }
+
+            const phoneVerified = location.phone_verified === 1
+            const active = Number(location.status) > 0
+
+            return res.status(200).json({
+                success: true,
+                verified: phoneVerified && active,
+                phone_verified: phoneVerified,
+                active,
+                pickup_location: location,
+            })
+        } finally {
+            client.dispose()
+        }
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin verify pickup location error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to verify pickup location"
+        })
+    }
+}
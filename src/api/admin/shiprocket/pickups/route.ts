@@ -0,0 +1,51 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { schedulePickupForFulfillment } from "../../../../lib/pickups"
+
+/**
+ * Admin Pickup Scheduling API
+ *
+ * URL: POST /admin/shiprocket/pickups
+ * Body: { fulfillment_ids: string[], pickup_date?: "YYYY-MM-DD", reschedule?: boolean }
+ *
+ * Asks the courier to collect the given shipments on the chosen date (or the next slot).
+ * Pass `reschedule: true` to request a new pickup after a missed one. The pickup token
+ * and scheduled date are stored on each fulfillment.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { fulfillment_ids, pickup_date, reschedule } = (req.body || {}) as {
+        fulfillment_ids?: string[]
+        pickup_date?: string
+        reschedule?: boolean
+    }
+
+    if (!Array.isArray(fulfillment_ids) || !fulfillment_ids.length) {
+        return res.status(400).json({
+            success: false,
+            error: "fulfillment_ids must be a non-empty array"
+        })
+    }
+
+    const logger = req.scope.resolve("logger")
+    const results: { fulfillment_id: string; success: boolean; pickup?: unknown; error?: string }[] = []
+
+    for (const fulfillmentId of fulfillment_ids) {
+        try {
+            const pickup = await schedulePickupForFulfillment(req.scope, fulfillmentId, {
+                pickup_date,
+                reschedule: !!reschedule,
+            })
+            results.push({ fulfillment_id: fulfillmentId, success: true, pickup })
+        } catch (error: any) {
+            logger.error(`Admin pickup scheduling error for ${fulfillmentId}: ${error.message}`)
+            results.push({ fulfillment_id: fulfillmentId, success: false, error: error.message })
+        }
+    }
+
+    const failed = results.filter((r) => !r.success).length
+    return res.status(failed === results.length ? 400 : 200).json({
+        success: failed === 0,
+        results,
+        scheduled: results.length - failed,
+        failed,
+    })
+}
@@ -0,0 +1,43 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { createReturnShipment } from "../../../../../lib/returns"
+
+/**
+ * Admin Return Shipment API
+ *
+ * URL: POST /admin/shiprocket/returns/:return_id
+ * Body: { qc_enable?: boolean }
+ *
+ * Creates the Shiprocket reverse pickup of a return, or retries the reverse AWB assignment
+ * when the return order already exists. `qc_enable` overrides the return option's quality check.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { return_id } = req.params
+    const { qc_enable } = (req.body || {}) as { qc_enable?: boolean }
+
+    try {
+        const result = await createReturnShipment(req.scope, return_id, {
+            ...(typeof qc_enable === "boolean" && { qc_enable }),
+        })
+
+        if (!result) {
+            return res.status(400).json({
+                success: false,
+                error: `Return ${return_id} is not shipped with Shiprocket`
+            })
+        }
+
+        return res.status(result.awb ? 200 : 409).json({
+            success: !!result.awb,
+            ...result,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin return shipment error: ${error.message}`, error)
+        const status = error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND ? 404 : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to create return shipment"
+        })
+    }
+}
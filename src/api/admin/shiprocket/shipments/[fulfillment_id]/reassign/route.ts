@@ -0,0 +1,48 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { reassignCourier } from "../../../../../../lib/shipments"
+
+/**
+ * Admin Courier Reassignment API
+ *
+ * URL: POST /admin/shiprocket/shipments/:fulfillment_id/reassign
+ * Body: { courier_id?: number }
+ *
+ * Moves a shipment that hasn't been picked up to another courier, without cancelling the
+ * Shiprocket order: cancels its AWB and assigns a new one, to `courier_id` or to the preferred
+ * other courier on the route. The fulfillment gets the new AWB, tracking URL and label.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { fulfillment_id } = req.params
+    const { courier_id } = (req.body || {}) as { courier_id?: number | string }
+
+    if (courier_id !== undefined && courier_id !== null && !(Number(courier_id) > 0)) {
+        return res.status(400).json({
+            success: false,
+            error: "courier_id must be a Shiprocket courier_company_id"
+        })
+    }
+
+    try {
+        const result = await reassignCourier(req.scope, fulfillment_id, {
+            ...(courier_id && { courier_id: Number(courier_id) }),
+        })
+
+        return res.status(result.error ? 409 : 200).json({
+            success: !result.error,
+            ...result,
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin courier reassignment error: ${error.message}`, error)
+        const status = error instanceof MedusaError
+            ? error.type === MedusaError.Types.NOT_FOUND ? 404
+                : error.type === MedusaError.Types.NOT_ALLOWED || error.type === MedusaError.Types.INVALID_DATA ? 400
+                    : 500
+            : 500
+        return res.status(status).json({
+            success: false,
+            error: error.message || "Failed to reassign courier"
+        })
+    }
+}
@@ -0,0 +1,31 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { resumeShipment } from "../../../../../../lib/shipments"
+
+/**
+ * Admin Shipment Retry API
+ *
+ * URL: POST /admin/shiprocket/shipments/:fulfillment_id/retry
+ *
+ * Resumes an unfinished Shiprocket shipment right away, from its last completed stage
+ * (AWB assignment, then label generation), including shipments the retry job gave up on.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { fulfillment_id } = req.params
+
+    try {
+        const result = await resumeShipment(req.scope, fulfillment_id)
+
+        return res.status(result.error ? 409 : 200).json({
+            success: !result.error,
+            stage: result.stage,
+            ...(result.error && { error: result.error }),
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Admin shipment retry error: ${error.message}`, error)
+        return res.status(500).json({
+            success: false,
+            error: error.message || "Failed to retry shipment"
+        })
+    }
+}
@@ -46,6 +46,7 @@ export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
                 current_status_id: tracking.current_status_id,
                 shipment_status: tracking.shipment_status,
                 shipment_status_id: tracking.shipment_status_id,
+                normalized_status: tracking.normalized_status,
                 current_timestamp: tracking.current_timestamp,
                 etd: tracking.etd,
                 awb_assigned_date: tracking.awb_assigned_date,
@@ -53,6 +54,11 @@ export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
                 is_return: tracking.is_return,
                 pod_status: tracking.pod_status,
                 pod: tracking.pod,
+                ndr_status: tracking.ndr_status,
+                ndr_attempts: tracking.ndr_attempts,
+                ndr_reason: tracking.ndr_reason,
+                ndr_last_attempt_at: tracking.ndr_last_attempt_at,
+                ndr_actions: tracking.ndr_actions || [],
                 channel_id: tracking.channel_id,
                 scans: tracking.scans || [],
                 raw_payload: tracking.raw_payload,
@@ -1,6 +1,10 @@
 import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 // @ts-ignore - Explicit .js extension required for NodeNext resolution, maps to .ts source
 import ShiprocketClient from "../../../../../../providers/shiprocket/client/index.js"
+import { documentUrlsData } from "../../../../../../providers/shiprocket/utils/documents"
+import { recordNdr } from "../../../../../../lib/ndr"
+import { emitTrackingUpdated } from "../../../../../../lib/tracking"
+import { getStatusText } from "../../../../../../modules/shiprocket-tracking/statuses"
 
 const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
 
@@ -54,38 +58,9 @@ export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
 
             const trackingData = trackingResponse.tracking_data
 
-            // Ensure status gets saved as a string (fixing "1" vs "AWB Assigned" issue)
-            let status: any = trackingData.current_status || trackingData.track_status || "Unknown"
-
-            // Shiprocket Status Map
-            const statusMap: Record<string | number, string> = {
-                1: "AWB Assigned",
-                6: "Shipped",
-                7: "Delivered",
-                8: "Cancelled",
-                9: "RTO Initiated",
-                13: "Pickup Error",
-                17: "In Transit",
-                18: "In Transit",
-                19: "RTO In Transit",
-                20: "RTO In Transit",
-                21: "Reached Destination",
-            }
-
-            let shipmentStatus: any = trackingData.shipment_status || null
-
-            // Handle edge case where Shiprocket returns numbers for status
-            if (statusMap[status]) {
-                status = statusMap[status]
-            } else if (typeof status === "number") {
-                status = String(status)
-            }
-
-            if (shipmentStatus && statusMap[shipmentStatus]) {
-                shipmentStatus = statusMap[shipmentStatus]
-            } else if (typeof shipmentStatus === "number") {
-                shipmentStatus = String(shipmentStatus)
-            }
+            // Shiprocket sometimes sends a status id in place of its label
+            const status = getStatusText(trackingData.current_status || trackingData.track_status) || "Unknown"
+            const shipmentStatus = getStatusText(trackingData.shipment_status)
 
             const trackInfo = trackingData.shipment_track?.[0]
             const scans = trackingData.shipment_track_activities || trackingData.scans || []
@@ -112,6 +87,27 @@ export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
                 raw_payload: trackingResponse,
             })
 
+            const ndrStatus = await recordNdr(
+                req.scope,
+                awb,
+                trackingData.shipment_status_id || trackingData.current_status_id,
+                status,
+                scans
+            ).catch((ndrError: Error) => {
+                logger.warn(`Failed to record NDR for AWB ${awb}: ${ndrError.message}`)
+                return null
+            })
+
+            // Same follow-ups as a webhook: fulfillment lifecycle, RTO receipt and exchanges
+            await emitTrackingUpdated(req.scope, {
+                awb,
+                tracking_id: tracking.id,
+                current_status: status,
+                shipment_status_id: trackingData.shipment_status_id || trackingData.current_status_id || 0,
+            }).catch((eventError: Error) => {
+                logger.warn(`Failed to emit tracking update for AWB ${awb}: ${eventError.message}`)
+            })
+
             // Handle document generation if fulfillment_id is provided
             let documents: { label_url: string; invoice_url: string; manifest_url: string } | null = null;
             const fulfillmentId = (req.body as any)?.fulfillment_id
@@ -133,16 +129,18 @@ export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
                         documents = {
                             label_url: docs.label,
                             invoice_url: docs.invoice,
-                            manifest_url: docs.manifest
+                            // Manifests come from the end-of-day manifest run, not per shipment
+                            manifest_url: (fulfillment.data.manifest_url as string) || ""
                         }
 
                         // Update fulfillment with new document URLs
                         await fulfillmentService.updateFulfillment(fulfillmentId, {
                             data: {
                                 ...fulfillment.data,
-                                label_url: docs.label,
-                                invoice_url: docs.invoice,
-                                manifest_url: docs.manifest
+                                ...documentUrlsData({
+                                    label_url: docs.label,
+                                    invoice_url: docs.invoice
+                                }, fulfillment.data.awb as string | undefined)
                             }
                         })
                         logger.debug("Fulfillment updated with new document URLs")
@@ -162,8 +160,10 @@ export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse)
                     id: tracking.id,
                     awb: tracking.awb,
                     current_status: tracking.current_status,
+                    normalized_status: tracking.normalized_status,
                     courier_name: tracking.courier_name,
                     etd: tracking.etd,
+                    ndr_status: ndrStatus || tracking.ndr_status || null,
                     updated_at: tracking.updated_at,
                 },
                 documents // Return documents if found
@@ -1,5 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
 import crypto from "crypto"
+import { recordNdr } from "../../../../lib/ndr"
+import { emitTrackingUpdated } from "../../../../lib/tracking"
 
 // Module identifier - must match what's registered in medusa-config.ts
 const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
@@ -110,17 +113,28 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
             return new Date(dateStr)
         }
 
-        // Extract Medusa Order ID from "order_id-timestamp" format
-        // Shiprocket order_id is usually "order_id-timestamp" to ensure uniqueness
-        let medusaOrderId = payload.order_id
-        if (payload.order_id && payload.order_id.includes("-")) {
+        // Shiprocket's channel order id is the Medusa fulfillment id; the shipment record links it
+        // to the order. Orders created before that carried "order_id-timestamp" instead.
+        const shipment = await trackingService.findShipmentByAwb(payload.awb) ||
+            (payload.order_id ? await trackingService.findShipmentByFulfillmentId(payload.order_id) : null)
+
+        let medusaOrderId: string | undefined = shipment?.medusa_order_id || undefined
+        const medusaFulfillmentId: string | undefined = shipment?.medusa_fulfillment_id || undefined
+        if (!shipment && payload.order_id?.startsWith("order_")) {
             const parts = payload.order_id.split("-")
-            const lastPart = parts[parts.length - 1]
-            // If last part is numeric timestamp, remove it
-            if (/^\d+$/.test(lastPart)) {
+            if (parts.length > 1 && /^\d+$/.test(parts[parts.length - 1])) {
                 parts.pop()
-                medusaOrderId = parts.join("-")
             }
+            medusaOrderId = parts.join("-")
+        }
+        if (!medusaOrderId && medusaFulfillmentId) {
+            const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+            const { data: [fulfillment] } = await query.graph({
+                entity: "fulfillment",
+                fields: ["id", "order.id"],
+                filters: { id: medusaFulfillmentId },
+            })
+            medusaOrderId = (fulfillment as any)?.order?.id || undefined
         }
 
         // Upsert tracking record
@@ -128,6 +142,7 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
             awb: payload.awb,
             order_id: payload.order_id,
             medusa_order_id: medusaOrderId, // Linked Medusa Order ID
+            medusa_fulfillment_id: medusaFulfillmentId,
             sr_order_id: payload.sr_order_id ? Number(payload.sr_order_id) : undefined,
             courier_name: payload.courier_name,
             current_status: payload.current_status,
@@ -152,35 +167,31 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
             `Record ID: ${tracking.id}`
         )
 
-        // Emit event for subscribers to handle
-        // Emit event for subscribers to handle
+        // Failed delivery attempts (NDR) are tracked separately from the raw status
         try {
-            // Try v2 resolution first
-            let eventBus: any = undefined;
-            try {
-                eventBus = req.scope.resolve("event_bus");
-            } catch (e) {
-                // Fallback to v1
-                try {
-                    eventBus = req.scope.resolve("eventBusService");
-                } catch (e2) {
-                    logger.warn("Shiprocket webhook: Event bus not found, skipping event emission");
-                }
-            }
+            await recordNdr(
+                req.scope,
+                payload.awb,
+                payload.shipment_status_id ? Number(payload.shipment_status_id) : undefined,
+                payload.current_status,
+                payload.scans || []
+            )
+        } catch (ndrErr) {
+            logger.warn(`Shiprocket webhook: Failed to record NDR: ${(ndrErr as Error).message}`)
+        }
 
-            if (eventBus && (eventBus as any).emit) {
-                await (eventBus as any).emit("shiprocket.tracking.updated", {
-                    awb: payload.awb,
-                    tracking_id: tracking.id,
-                    current_status: payload.current_status,
-                    shipment_status_id: payload.shipment_status_id,
-                })
-            }
+        // Emit event for subscribers to handle
+        try {
+            await emitTrackingUpdated(req.scope, {
+                awb: payload.awb,
+                tracking_id: tracking.id,
+                current_status: payload.current_status,
+                shipment_status_id: payload.shipment_status_id,
+            })
         } catch (eventErr) {
             logger.warn(`Shiprocket webhook: Failed to emit event: ${(eventErr as Error).message}`)
         }
 
-
         return res.status(200).json({
             success: true,
             message: "Webhook processed",
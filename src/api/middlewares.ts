@@ -1,4 +1,38 @@
-import { defineMiddlewares } from "@medusajs/framework/http"
+import {
+    authenticate,
+    defineMiddlewares,
+    MedusaNextFunction,
+    MedusaRequest,
+    MedusaResponse,
+} from "@medusajs/framework/http"
+import { usesShiprocketShippingOption } from "../lib/fulfillments"
+import { getOrderCodPayment } from "../lib/payments"
+import { SHIPROCKET_COD_METADATA_KEY } from "../providers/shiprocket/utils/payment"
+
+/**
+ * Pass the amount the order still owes to the fulfillment being created, checked against its
+ * payment collections now, so a payment captured since the order was placed isn't collected twice.
+ * Fulfillments of other providers are left alone.
+ */
+async function attachCodPayment(req: MedusaRequest, res: MedusaResponse, next: MedusaNextFunction) {
+    try {
+        // Runs after Medusa's body validation, the route reads the validated body
+        const body = req.validatedBody as Record<string, any> | undefined
+        if (!body || typeof body !== "object") {
+            return next()
+        }
+        if (!(await usesShiprocketShippingOption(req.scope, req.params.id, body.shipping_option_id))) {
+            return next()
+        }
+
+        const cod = await getOrderCodPayment(req.scope, req.params.id)
+        body.metadata = { ...(body.metadata || {}), [SHIPROCKET_COD_METADATA_KEY]: cod }
+    } catch (err: any) {
+        // Shipping without knowing what is owed risks collecting twice, or not at all
+        return next(err)
+    }
+    next()
+}
 
 export default defineMiddlewares({
     routes: [
@@ -8,5 +42,17 @@ export default defineMiddlewares({
             middlewares: [],
             bodyParser: { sizeLimit: "1kb" },
         },
+        {
+            // Delivery re-attempts are requested by the customer who owns the shipment
+            matcher: "/store/shiprocket/tracking/:awb/ndr",
+            method: ["POST"],
+            middlewares: [authenticate("customer", ["session", "bearer"])],
+        },
+        {
+            // COD amount of new fulfillments comes from the order's payments at that time
+            matcher: "/admin/orders/:id/fulfillments",
+            method: ["POST"],
+            middlewares: [attachCodPayment],
+        },
     ],
 })
@@ -0,0 +1,98 @@
+import { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { getShiprocketManager, hasShiprocketCredentials } from "../../../../providers/shiprocket/client/manager"
+import { rateLimiter, getClientIdentifier } from "../delivery-estimate/rate-limiter"
+import { getShippingOptionCourierRules } from "../shipping-option-rules"
+
+/**
+ * GET /store/shiprocket/couriers
+ *
+ * Lists the couriers that can deliver to a pincode, with their rate and estimated delivery,
+ * so the customer can pick one at checkout. Pass the chosen `courier_company_id` as
+ * `courier_id` in the shipping method `data` when adding a Shiprocket shipping option to the cart;
+ * the rate is locked in and the AWB is assigned to that courier.
+ *
+ * Query parameters:
+ * - delivery_pincode: The delivery destination pincode (required)
+ * - pickup_pincode: The pickup location pincode (optional, auto-fetched from SHIPROCKET_PICKUP_LOCATION)
+ * - weight: Package weight in kg (optional, defaults to 0.5)
+ * - cod: Cash on delivery flag, 0 or 1 (optional, defaults to 0)
+ * - declared_value: Cart value, so couriers that can't carry it are excluded (optional)
+ * - shipping_option_id: Apply the courier allow/deny lists of this shipping option (optional)
+ */
+export async function GET(
+    req: MedusaRequest,
+    res: MedusaResponse
+) {
+    const clientId = getClientIdentifier(req)
+    if (!rateLimiter.isAllowed(clientId)) {
+        const resetTime = rateLimiter.getResetTime(clientId)
+        res.setHeader("Retry-After", resetTime.toString())
+        return res.status(429).json({
+            error: "Too many requests",
+            message: `Rate limit exceeded. Try again in ${resetTime} seconds.`,
+        })
+    }
+
+    const { pickup_pincode, delivery_pincode, weight, cod, declared_value, shipping_option_id } = req.query as {
+        pickup_pincode?: string
+        delivery_pincode?: string
+        weight?: string
+        cod?: string
+        declared_value?: string
+        shipping_option_id?: string
+    }
+
+    if (!hasShiprocketCredentials()) {
+        return res.status(500).json({
+            error: "Configuration error",
+            message: "Shiprocket credentials not configured. Set SHIPROCKET_EMAIL and SHIPROCKET_PASSWORD environment variables.",
+        })
+    }
+
+    const pincodeRegex = /^\d{6}$/
+    if (!delivery_pincode || !pincodeRegex.test(delivery_pincode)) {
+        return res.status(400).json({
+            error: "Invalid delivery_pincode",
+            message: "'delivery_pincode' query parameter must be a 6-digit number",
+        })
+    }
+
+    const logger = req.scope.resolve("logger")
+
+    try {
+        const manager = getShiprocketManager(logger)
+
+        let pickupPincode = pickup_pincode
+        const pickupLocation = manager.getPickupLocation()
+        if (!pickupPincode && pickupLocation) {
+            pickupPincode = (await manager.getPickupPincode(pickupLocation)) || undefined
+        }
+
+        if (!pickupPincode || !pincodeRegex.test(pickupPincode)) {
+            return res.status(400).json({
+                error: "Invalid pickup pincode",
+                message: "Either provide a 6-digit 'pickup_pincode' or set SHIPROCKET_PICKUP_LOCATION environment variable to auto-fetch the pincode",
+            })
+        }
+
+        const couriers = await manager.getCourierOptions({
+            pickup_postcode: pickupPincode,
+            delivery_postcode: delivery_pincode,
+            weight: weight ? parseFloat(weight) : undefined,
+            cod: cod ? parseInt(cod) : undefined,
+            declared_value: declared_value ? parseFloat(declared_value) : undefined,
+            ...(await getShippingOptionCourierRules(req, shipping_option_id)),
+        })
+
+        return res.json({
+            serviceable: couriers.length > 0,
+            couriers,
+        })
+    } catch (error: any) {
+        logger.error(`Courier options error: ${error.message}`)
+        return res.status(500).json({
+            error: "Failed to get courier options",
+            message: error.message || "An unexpected error occurred",
+        })
+    }
+}
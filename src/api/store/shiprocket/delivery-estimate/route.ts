@@ -1,6 +1,7 @@
 import { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { getShiprocketManager, hasShiprocketCredentials } from "../../../../providers/shiprocket/client/manager"
 import { rateLimiter, getClientIdentifier } from "./rate-limiter"
+import { getShippingOptionCourierRules } from "../shipping-option-rules"
 
 // Make this route public (no publishable API key required)
 export const AUTHENTICATE = false
@@ -22,6 +23,8 @@ let cachedPickupPincode: { value: string; expiresAt: number } | null = null
  * - pickup_pincode: The pickup location pincode (optional, auto-fetched from SHIPROCKET_PICKUP_LOCATION)
  * - weight: Package weight in kg (optional, defaults to 0.5)
  * - cod: Cash on delivery flag, 0 or 1 (optional, defaults to 0)
+ * - declared_value: Cart value, so couriers that can't carry it are excluded (optional)
+ * - shipping_option_id: Apply the courier allow/deny lists of this shipping option (optional)
  */
 export async function GET(
     req: MedusaRequest,
@@ -45,11 +48,13 @@ export async function GET(
     res.setHeader("X-RateLimit-Limit", "30")
     res.setHeader("X-RateLimit-Remaining", rateLimiter.getRemaining(clientId).toString())
 
-    const { pickup_pincode, delivery_pincode, weight, cod } = req.query as {
+    const { pickup_pincode, delivery_pincode, weight, cod, declared_value, shipping_option_id } = req.query as {
         pickup_pincode?: string
         delivery_pincode?: string
         weight?: string
         cod?: string
+        declared_value?: string
+        shipping_option_id?: string
     }
 
     // Validate credentials are configured
@@ -126,6 +131,8 @@ export async function GET(
             delivery_postcode: delivery_pincode,
             weight: weight ? parseFloat(weight) : undefined,
             cod: cod ? parseInt(cod) : undefined,
+            declared_value: declared_value ? parseFloat(declared_value) : undefined,
+            ...(await getShippingOptionCourierRules(req, shipping_option_id)),
         })
 
         return res.json(estimate)
@@ -0,0 +1,22 @@
+import { MedusaRequest } from "@medusajs/framework/http"
+import { Modules } from "@medusajs/framework/utils"
+import { CourierRules, getCourierRules } from "../../../providers/shiprocket/utils"
+
+/**
+ * Read the courier allow/deny lists of the shipping option passed as `shipping_option_id`,
+ * so storefront estimates only show couriers that option can actually ship with.
+ */
+export async function getShippingOptionCourierRules(
+    req: MedusaRequest,
+    shippingOptionId?: string
+): Promise<CourierRules> {
+    if (!shippingOptionId) return {}
+
+    const fulfillmentModule = req.scope.resolve(Modules.FULFILLMENT)
+    const [option] = await fulfillmentModule.listShippingOptions(
+        { id: shippingOptionId },
+        { select: ["id", "data"] }
+    )
+
+    return getCourierRules(option?.data)
+}
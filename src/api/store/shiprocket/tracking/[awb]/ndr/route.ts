@@ -0,0 +1,68 @@
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { findOrderIdByAwb, takeNdrAction } from "../../../../../../lib/ndr"
+
+/**
+ * Store NDR Re-attempt API
+ *
+ * URL: POST /store/shiprocket/tracking/:awb/ndr
+ * Body: { proposed_date?: "YYYY-MM-DD", address_1?, address_2?, phone?, comments? }
+ *
+ * Lets a logged-in customer ask for another delivery attempt of their own shipment after a
+ * failed delivery, optionally on another date or with a corrected address and phone.
+ */
+export const POST = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { awb } = req.params
+    const body = (req.body || {}) as {
+        proposed_date?: string
+        address_1?: string
+        address_2?: string
+        phone?: string
+        comments?: string
+    }
+
+    try {
+        // Only the customer who placed the order can act on its shipment
+        const orderId = await findOrderIdByAwb(req.scope, awb)
+        const order = orderId
+            ? await req.scope.resolve("order").retrieveOrder(orderId, { select: ["customer_id"] }).catch(() => null)
+            : null
+
+        if (!order?.customer_id || order.customer_id !== req.auth_context?.actor_id) {
+            return res.status(404).json({
+                success: false,
+                error: "Shipment not found"
+            })
+        }
+
+        const ndr = await takeNdrAction(req.scope, awb, {
+            action: "reattempt",
+            requested_by: "customer",
+            proposed_date: body.proposed_date,
+            address_1: body.address_1,
+            address_2: body.address_2,
+            phone: body.phone,
+            comments: body.comments?.slice(0, 250),
+        })
+
+        return res.status(200).json({
+            success: true,
+            ndr: {
+                awb: ndr.awb,
+                ndr_status: ndr.ndr_status,
+                ndr_attempts: ndr.ndr_attempts,
+            },
+        })
+    } catch (error: any) {
+        const logger = req.scope.resolve("logger")
+        logger.error(`Store NDR re-attempt error: ${error.message}`, error)
+        const status = error instanceof MedusaError &&
+            (error.type === MedusaError.Types.NOT_ALLOWED || error.type === MedusaError.Types.INVALID_DATA)
+            ? 400
+            : 500
+        return res.status(status).json({
+            success: false,
+            error: status === 400 ? error.message : "Failed to request a delivery re-attempt"
+        })
+    }
+}
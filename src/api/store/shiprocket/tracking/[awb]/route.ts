@@ -60,18 +60,14 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
                     })
                 }
             } catch (e) {
-                // Ownership verification failed - deny access for security
+                // Ownership can't be verified (unknown order or system error) - deny access
                 const logger = req.scope.resolve("logger")
                 logger.warn(`Tracking ownership check failed for AWB ${awb}: ${(e as Error).message}`)
 
-                // If the error is not "order not found", deny access
-                // (order not found shouldn't happen if ID exists, so it's likely a system error)
-                if (!(e as Error).message.toLowerCase().includes("not found")) {
-                    return res.status(403).json({
-                        success: false,
-                        error: "Access denied. Unable to verify order ownership."
-                    })
-                }
+                return res.status(403).json({
+                    success: false,
+                    error: "Access denied. Unable to verify order ownership."
+                })
             }
         }
 
@@ -85,10 +81,13 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
                 current_status_id: tracking.current_status_id,
                 shipment_status: tracking.shipment_status,
                 shipment_status_id: tracking.shipment_status_id,
+                normalized_status: tracking.normalized_status,
                 current_timestamp: tracking.current_timestamp,
                 etd: tracking.etd,
                 is_return: tracking.is_return,
                 pod_status: tracking.pod_status,
+                ndr_status: tracking.ndr_status,
+                ndr_attempts: tracking.ndr_attempts,
                 scans: tracking.scans || [],
                 updated_at: tracking.updated_at,
             },
@@ -0,0 +1,34 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { hasShiprocketCredentials } from "../providers/shiprocket/client/manager"
+import { generateDailyManifests } from "../lib/manifests"
+
+/**
+ * Scheduled job that generates the end-of-day Shiprocket manifests, one per pickup
+ * location and courier, for the shipments handed over that day.
+ *
+ * Opt-in: runs only when SHIPROCKET_MANIFEST_SCHEDULE is set to a cron expression,
+ * e.g. "0 18 * * *" for 6 PM. Otherwise generate manifests from the admin.
+ */
+export default async function generateShiprocketManifestsJob(container: MedusaContainer) {
+    const logger = container.resolve("logger")
+
+    if (!process.env.SHIPROCKET_MANIFEST_SCHEDULE || !hasShiprocketCredentials()) {
+        return
+    }
+
+    try {
+        const manifests = await generateDailyManifests(container)
+        const failed = manifests.filter((manifest) => manifest.error).length
+
+        if (manifests.length) {
+            logger.info(`Shiprocket: Generated ${manifests.length - failed} manifest(s), ${failed} failed`)
+        }
+    } catch (err: any) {
+        logger.error(`Failed to generate Shiprocket manifests: ${err.message}`, err)
+    }
+}
+
+export const config = {
+    name: "generate-shiprocket-manifests",
+    schedule: process.env.SHIPROCKET_MANIFEST_SCHEDULE || "0 18 * * *", // daily at 6 PM unless configured
+}
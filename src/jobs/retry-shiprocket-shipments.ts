@@ -0,0 +1,42 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { hasShiprocketCredentials } from "../providers/shiprocket/client/manager"
+import { resumeShipment } from "../lib/shipments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Scheduled job that finishes Shiprocket shipments left unfinished by a transient
+ * failure (empty wallet, Shiprocket outage): assigns pending AWBs and generates
+ * missing labels, resuming each shipment from its last completed stage.
+ *
+ * Runs every 10 minutes; each shipment is retried with exponential backoff.
+ */
+export default async function retryShiprocketShipmentsJob(container: MedusaContainer) {
+    const logger = container.resolve("logger")
+
+    if (!hasShiprocketCredentials()) {
+        return
+    }
+
+    try {
+        const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+        const due = await trackingService.listDueShipments()
+
+        for (const shipment of due) {
+            await resumeShipment(container, shipment.medusa_fulfillment_id).catch((err: any) => {
+                logger.error(`Shiprocket: Retry failed for fulfillment ${shipment.medusa_fulfillment_id}: ${err.message}`)
+            })
+        }
+
+        if (due.length) {
+            logger.info(`Shiprocket: Retried ${due.length} unfinished shipment(s)`)
+        }
+    } catch (err: any) {
+        logger.error(`Failed to retry Shiprocket shipments: ${err.message}`, err)
+    }
+}
+
+export const config = {
+    name: "retry-shiprocket-shipments",
+    schedule: "*/10 * * * *", // every 10 minutes
+}
@@ -0,0 +1,182 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import type { ShiprocketAddressUpdate } from "../providers/shiprocket/client/types"
+import { getCourierRules } from "../providers/shiprocket/utils"
+import { normalizeStatus, PICKED_UP_STATUSES } from "../modules/shiprocket-tracking/statuses"
+import { isShiprocketFulfillment } from "./fulfillments"
+import { reassignCourier } from "./shipments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+const ADDRESS_FIELDS = [
+    "first_name",
+    "last_name",
+    "address_1",
+    "address_2",
+    "city",
+    "province",
+    "postal_code",
+    "country_code",
+    "phone",
+] as const
+
+const ORDER_FIELDS = [
+    "id",
+    "shipping_address.*",
+    "fulfillments.id",
+    "fulfillments.provider_id",
+    "fulfillments.shipping_option_id",
+    "fulfillments.canceled_at",
+    "fulfillments.shipped_at",
+    "fulfillments.delivered_at",
+    "fulfillments.data",
+    "fulfillments.delivery_address.*",
+]
+
+type AddressFields = Partial<Record<typeof ADDRESS_FIELDS[number], string>>
+
+function toAddressFields(address: any): AddressFields {
+    const fields: AddressFields = {}
+    for (const field of ADDRESS_FIELDS) {
+        fields[field] = String(address?.[field] ?? "").trim()
+    }
+    return fields
+}
+
+function isSameAddress(a: any, b: any): boolean {
+    const left = toAddressFields(a)
+    const right = toAddressFields(b)
+    return ADDRESS_FIELDS.every((field) => left[field]?.toLowerCase() === right[field]?.toLowerCase())
+}
+
+/**
+ * Push an order's corrected shipping address to its Shiprocket orders that haven't been
+ * picked up yet.
+ *
+ * When the pincode changes, serviceability is checked first: an address no courier can
+ * reach is not pushed. A shipment whose courier doesn't serve the new pincode is moved to
+ * another courier. Each change is recorded in the fulfillment `data.address_updates`, and
+ * the address Shiprocket now has in `data.shipping_address`.
+ */
+export async function syncShippingAddress(container: MedusaContainer, orderId: string) {
+    const logger = container.resolve("logger")
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const { data: [order] } = await query.graph({
+        entity: "order",
+        fields: ORDER_FIELDS,
+        filters: { id: orderId },
+    })
+
+    const shippingAddress = (order as any)?.shipping_address
+    if (!shippingAddress) return []
+
+    const updates: (ShiprocketAddressUpdate & { fulfillment_id: string })[] = []
+    for (const fulfillment of ((order as any).fulfillments || []) as any[]) {
+        const data = (fulfillment?.data || {}) as Record<string, any>
+        if (!fulfillment || !isShiprocketFulfillment(fulfillment) || data.is_return) continue
+        if (fulfillment.canceled_at || fulfillment.shipped_at || fulfillment.delivered_at) continue
+        if (isSameAddress(data.shipping_address || fulfillment.delivery_address, shippingAddress)) continue
+
+        const tracking = data.awb ? await trackingService.findByAwb(data.awb) : null
+        // Too late to change the address once the courier has the parcel
+        const status = tracking?.normalized_status || normalizeStatus(tracking?.current_status_id, tracking?.current_status)
+        if (status && PICKED_UP_STATUSES.includes(status)) {
+            logger.info(`Shiprocket: Fulfillment ${fulfillment.id} already picked up, address change not sent`)
+            continue
+        }
+
+        const update = await updateFulfillmentAddress(container, fulfillment, shippingAddress)
+        updates.push({ fulfillment_id: fulfillment.id, ...update })
+    }
+
+    return updates
+}
+
+async function updateFulfillmentAddress(
+    container: MedusaContainer,
+    fulfillment: any,
+    shippingAddress: any
+): Promise<ShiprocketAddressUpdate> {
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+
+    const data = (fulfillment.data || {}) as Record<string, any>
+    const previous = toAddressFields(data.shipping_address || fulfillment.delivery_address)
+    const next = toAddressFields(shippingAddress)
+    const note: ShiprocketAddressUpdate = {
+        updated_at: new Date().toISOString(),
+        previous_pincode: previous.postal_code || undefined,
+        pincode: next.postal_code || undefined,
+        address: [next.address_1, next.address_2, next.city, next.province].filter(Boolean).join(", "),
+        phone: next.phone || undefined,
+    }
+
+    let reassign = false
+    const client = createShiprocketClientFromEnv()
+    try {
+        // An address no courier can reach would only come back as RTO; keep the old one
+        let courierIds: number[] | null = null
+        if (previous.postal_code !== next.postal_code) {
+            const shippingOption = fulfillment.shipping_option_id
+                ? await fulfillmentModule.retrieveShippingOption(fulfillment.shipping_option_id).catch(() => null)
+                : null
+            const couriers = await client.getShipmentCouriers(fulfillment, next.postal_code!, getCourierRules(shippingOption?.data))
+            courierIds = couriers.map((courier) => Number(courier.courier_company_id))
+        }
+
+        await client.updateShippingAddress(data.order_id, next)
+
+        const serviceable = !courierIds || !data.courier_company_id || courierIds.includes(Number(data.courier_company_id))
+        await fulfillmentModule.updateFulfillment(fulfillment.id, {
+            data: {
+                ...data,
+                shipping_address: next,
+                // Without an AWB yet, let the pending assignment pick a courier for the new pincode
+                ...(!serviceable && !data.awb && { courier_company_id: null }),
+            },
+        })
+        reassign = !serviceable && !!data.awb
+    } catch (error: any) {
+        note.error = error.message
+        logger.warn(`Shiprocket: Address change for fulfillment ${fulfillment.id} not applied: ${error.message}`)
+    } finally {
+        client.dispose()
+    }
+
+    if (reassign) {
+        try {
+            const moved = await reassignCourier(container, fulfillment.id)
+            Object.assign(note, {
+                previous_awb: moved.previous_awb,
+                awb: moved.awb,
+                courier_name: moved.courier_name,
+                ...(moved.error && { error: moved.error }),
+            })
+        } catch (error: any) {
+            note.error = `Courier ${data.courier_name || data.courier_company_id} doesn't serve ${note.pincode} ` +
+                `and the shipment couldn't be moved: ${error.message}`
+            logger.warn(`Shiprocket: ${note.error}`)
+        }
+    }
+
+    // Courier reassignment rewrites the data, append the note to the latest
+    const latest = await fulfillmentModule.retrieveFulfillment(fulfillment.id)
+    const latestData = (latest.data || {}) as Record<string, any>
+    await fulfillmentModule.updateFulfillment(fulfillment.id, {
+        data: {
+            ...latestData,
+            address_updates: [...(latestData.address_updates || []), note],
+        },
+    })
+
+    if (!note.error) {
+        logger.info(
+            `Shiprocket: Delivery address of fulfillment ${fulfillment.id} updated` +
+            (note.awb ? `, moved from AWB ${note.previous_awb} to ${note.awb}` : "")
+        )
+    }
+    return note
+}
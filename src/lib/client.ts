@@ -0,0 +1,42 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import ShiprocketClient from "../providers/shiprocket/client"
+import { createShiprocketClientFromEnv, getClientOptions } from "../providers/shiprocket/client/from-env"
+
+const SHIPROCKET_PROVIDER_ID = "shiprocket"
+
+type ProviderRegistration = {
+    resolve?: unknown
+    id?: string
+    options?: Record<string, any>
+}
+
+/**
+ * Options of the Shiprocket provider registered in the Fulfillment module config,
+ * or null when it can't be found there
+ */
+export function getShiprocketProviderOptions(container: MedusaContainer): Record<string, any> | null {
+    const configModule = container.resolve(ContainerRegistrationKeys.CONFIG_MODULE)
+    const fulfillmentModule = configModule.modules?.[Modules.FULFILLMENT]
+    if (!fulfillmentModule || typeof fulfillmentModule !== "object") return null
+
+    const providers = ((fulfillmentModule as any).options?.providers || []) as ProviderRegistration[]
+    const provider = providers.find((p) => p.id === SHIPROCKET_PROVIDER_ID) ||
+        providers.find((p) => typeof p.resolve === "string" && p.resolve.includes("shiprocket"))
+    return provider?.options || null
+}
+
+/**
+ * Shiprocket client built from the registered provider's options (pickup locations, boxes,
+ * COD charges, insurance...), so routes and jobs ship exactly like the provider does.
+ * Falls back to SHIPROCKET_* environment variables. Callers should `dispose()` the client.
+ */
+export function createShiprocketClient(container: MedusaContainer): ShiprocketClient {
+    const options = getShiprocketProviderOptions(container)
+    if (!options) return createShiprocketClientFromEnv()
+
+    const clientOptions = getClientOptions(options)
+    return clientOptions.email && clientOptions.password
+        ? new ShiprocketClient(clientOptions)
+        : createShiprocketClientFromEnv(clientOptions)
+}
@@ -0,0 +1,230 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import {
+    ExchangeHold,
+    ExchangeItemRef,
+    getExchangeHold,
+    isExchangeReleased,
+    reverseStatusFromTracking,
+    SHIPROCKET_EXCHANGE_METADATA_KEY,
+} from "../providers/shiprocket/utils/exchanges"
+import { createReturnShipment } from "./returns"
+import { resumeShipment } from "./shipments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+export type RegisterExchangeOptions = {
+    /** When the replacement ships; defaults to SHIPROCKET_EXCHANGE_HOLD */
+    hold?: ExchangeHold
+}
+
+/**
+ * Point the order's exchange replacement items at their exchange, so the provider tags
+ * (and, with a hold, holds) the fulfillments shipping them
+ */
+async function setExchangeItems(container: MedusaContainer, orderId: string, itemIds: string[], ref: ExchangeItemRef) {
+    const orderModule = container.resolve(Modules.ORDER)
+    const order = await orderModule.retrieveOrder(orderId, { select: ["id", "metadata"] })
+    const exchangeItems = { ...((order.metadata?.[SHIPROCKET_EXCHANGE_METADATA_KEY] || {}) as Record<string, ExchangeItemRef>) }
+
+    for (const itemId of itemIds) {
+        exchangeItems[itemId] = ref
+    }
+
+    await orderModule.updateOrders(orderId, {
+        metadata: {
+            ...(order.metadata || {}),
+            [SHIPROCKET_EXCHANGE_METADATA_KEY]: exchangeItems,
+        },
+    })
+}
+
+/**
+ * Set up both legs of a Medusa order exchange: book the reverse pickup of the returned
+ * items, and flag the replacement items so their forward shipment is linked to the
+ * exchange and, with a hold, waits for the reverse leg.
+ *
+ * Safe to call again, e.g. to change the hold or retry a failed reverse pickup.
+ */
+export async function registerExchange(
+    container: MedusaContainer,
+    exchangeId: string,
+    options: RegisterExchangeOptions = {}
+) {
+    const logger = container.resolve("logger")
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const { data: [exchange] } = await query.graph({
+        entity: "order_exchange",
+        fields: ["id", "order_id", "return_id", "additional_items.item_id"],
+        filters: { id: exchangeId },
+    })
+
+    if (!exchange) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Exchange ${exchangeId} not found`)
+    }
+
+    const existing = await trackingService.findExchangeByExchangeId(exchangeId)
+    const hold: ExchangeHold = options.hold || existing?.hold || getExchangeHold()
+
+    // Reverse leg; a failure is stored on the return fulfillment and doesn't block the forward leg
+    let reverse: Awaited<ReturnType<typeof createReturnShipment>> = null
+    if (exchange.return_id) {
+        reverse = await createReturnShipment(container, exchange.return_id).catch((err: any) => {
+            logger.error(`Shiprocket: Reverse pickup for exchange ${exchangeId} failed: ${err.message}`)
+            return null
+        })
+    }
+
+    const itemIds = ((exchange as any).additional_items || [])
+        .map((item: any) => item?.item_id)
+        .filter(Boolean) as string[]
+    const released = !!existing?.released_at
+    await setExchangeItems(container, exchange.order_id, itemIds, {
+        exchange_id: exchangeId,
+        hold: hold !== "none" && !released,
+    })
+
+    const record = await trackingService.upsertExchange({
+        exchange_id: exchangeId,
+        medusa_order_id: exchange.order_id,
+        return_id: exchange.return_id || null,
+        ...(reverse && {
+            return_fulfillment_id: reverse.fulfillment_id,
+            return_awb: reverse.awb || null,
+        }),
+        hold,
+    })
+
+    logger.info(
+        `Shiprocket: Exchange ${exchangeId} registered` +
+        (reverse?.awb ? `, reverse pickup AWB ${reverse.awb}` : "") +
+        (hold !== "none" ? `, replacement held until ${hold.replace("_", " ")}` : "")
+    )
+
+    // Dropping the hold ships replacements that are already waiting
+    if (hold === "none" && existing?.hold && existing.hold !== "none" && !released) {
+        await releaseExchange(container, exchangeId)
+    }
+
+    return record
+}
+
+/**
+ * Link a forward fulfillment to its exchange. A held fulfillment created after the
+ * reverse leg already allows it to ship is released right away.
+ */
+export async function linkExchangeShipment(container: MedusaContainer, exchangeId: string, fulfillmentId: string) {
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+
+    const exchange = await trackingService.findExchangeByExchangeId(exchangeId)
+    if (!exchange) return
+
+    const forwardIds = new Set<string>((exchange.forward_fulfillment_ids || []) as string[])
+    forwardIds.add(fulfillmentId)
+    await trackingService.upsertExchange({
+        exchange_id: exchangeId,
+        forward_fulfillment_ids: [...forwardIds],
+    })
+
+    const fulfillment = await fulfillmentModule.retrieveFulfillment(fulfillmentId)
+    if ((fulfillment.data as any)?.stage === "on_hold" && await isReverseLegDone(container, exchange)) {
+        await releaseExchange(container, exchangeId)
+    }
+}
+
+async function isReverseLegDone(container: MedusaContainer, exchange: any): Promise<boolean> {
+    if (exchange.released_at) return true
+
+    let qcEnabled = false
+    if (exchange.return_fulfillment_id) {
+        const returnFulfillment = await container.resolve(Modules.FULFILLMENT)
+            .retrieveFulfillment(exchange.return_fulfillment_id)
+            .catch(() => null)
+        qcEnabled = !!(returnFulfillment?.data as any)?.qc_enable
+    }
+    return isExchangeReleased(exchange.hold, exchange.reverse_status, qcEnabled)
+}
+
+/**
+ * Ship the held replacements of an exchange: assign their AWBs, generate labels and
+ * request pickups. Future fulfillments of the exchange's items are no longer held.
+ */
+export async function releaseExchange(container: MedusaContainer, exchangeId: string) {
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const exchange = await trackingService.findExchangeByExchangeId(exchangeId)
+    if (!exchange) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Exchange ${exchangeId} is not tracked by Shiprocket`)
+    }
+
+    await trackingService.upsertExchange({ exchange_id: exchangeId, released_at: new Date() })
+
+    const orderModule = container.resolve(Modules.ORDER)
+    const order = await orderModule.retrieveOrder(exchange.medusa_order_id, { select: ["id", "metadata"] })
+    const exchangeItems = (order.metadata?.[SHIPROCKET_EXCHANGE_METADATA_KEY] || {}) as Record<string, ExchangeItemRef>
+    const itemIds = Object.keys(exchangeItems).filter((itemId) => exchangeItems[itemId]?.exchange_id === exchangeId)
+    await setExchangeItems(container, exchange.medusa_order_id, itemIds, { exchange_id: exchangeId, hold: false })
+
+    const results: { fulfillment_id: string; stage: string; error?: string }[] = []
+    for (const fulfillmentId of (exchange.forward_fulfillment_ids || []) as string[]) {
+        const fulfillment = await fulfillmentModule.retrieveFulfillment(fulfillmentId)
+        const data = (fulfillment.data || {}) as Record<string, any>
+        if (data.stage !== "on_hold" || fulfillment.canceled_at) continue
+
+        await fulfillmentModule.updateFulfillment(fulfillmentId, { data: { ...data, stage: "awb_pending" } })
+        await trackingService.upsertShipment({
+            medusa_fulfillment_id: fulfillmentId,
+            stage: "awb_pending",
+            next_attempt_at: new Date(),
+        })
+
+        // Anything left unfinished is picked up by the retry job
+        const result = await resumeShipment(container, fulfillmentId)
+        results.push({ fulfillment_id: fulfillmentId, ...result })
+    }
+
+    logger.info(`Shiprocket: Exchange ${exchangeId} released, ${results.length} replacement shipment(s) resumed`)
+    return results
+}
+
+/**
+ * Apply a tracking update of a reverse pickup to its exchange, releasing the
+ * replacement once the returned item is picked up or passes QC, per the exchange's hold.
+ */
+export async function updateExchangeReverseLeg(
+    container: MedusaContainer,
+    awb: string,
+    statusId?: number | null,
+    status?: string | null
+) {
+    const logger = container.resolve("logger")
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const exchange = await trackingService.findExchangeByReturnAwb(awb)
+    if (!exchange) return
+
+    const reverseStatus = reverseStatusFromTracking(statusId, status)
+    if (!reverseStatus || reverseStatus === exchange.reverse_status) return
+
+    const updated = await trackingService.upsertExchange({
+        exchange_id: exchange.exchange_id,
+        reverse_status: reverseStatus,
+    })
+
+    if (reverseStatus === "qc_failed" || reverseStatus === "canceled") {
+        logger.warn(
+            `Shiprocket: Reverse pickup ${awb} of exchange ${exchange.exchange_id} is ${reverseStatus.replace("_", " ")}, ` +
+            `replacement stays on hold`
+        )
+        return
+    }
+
+    if (!exchange.released_at && await isReverseLegDone(container, updated)) {
+        await releaseExchange(container, exchange.exchange_id)
+    }
+}
@@ -0,0 +1,38 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+
+/**
+ * Whether a fulfillment was created by the Shiprocket provider
+ */
+export function isShiprocketFulfillment(fulfillment: { provider_id?: string | null; data?: any }): boolean {
+    return !!fulfillment?.provider_id?.includes("shiprocket") && !!fulfillment?.data?.shipment_id
+}
+
+/**
+ * Whether a new fulfillment of an order ships with the Shiprocket provider. Like Medusa, it uses
+ * the given shipping option, or else the one of the order's first shipping method.
+ */
+export async function usesShiprocketShippingOption(
+    container: MedusaContainer,
+    orderId: string,
+    shippingOptionId?: string
+): Promise<boolean> {
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+    if (!shippingOptionId) {
+        const { data: [order] } = await query.graph({
+            entity: "order",
+            fields: ["id", "shipping_methods.shipping_option_id"],
+            filters: { id: orderId },
+        })
+        shippingOptionId = order?.shipping_methods?.[0]?.shipping_option_id ?? undefined
+    }
+    if (!shippingOptionId) return false
+
+    const { data: [shippingOption] } = await query.graph({
+        entity: "shipping_option",
+        fields: ["id", "provider_id"],
+        filters: { id: shippingOptionId },
+    })
+    return !!shippingOption?.provider_id?.includes("shiprocket")
+}
@@ -0,0 +1,77 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import { compareForLabels, LabelFormat, layoutLabels } from "../providers/shiprocket/utils/labels"
+import { isShiprocketFulfillment } from "./fulfillments"
+
+export type BulkLabels = {
+    pdf: Uint8Array
+    /** Fulfillments whose labels are in the PDF, in print order */
+    printed: string[]
+    /** Fulfillments left out, with the reason */
+    skipped: { fulfillment_id: string; reason: string }[]
+}
+
+/**
+ * Print the labels of many Shiprocket fulfillments as one PDF.
+ *
+ * Labels are generated in a single Shiprocket call, sorted by pickup location and courier,
+ * and laid out for A4 sheets or 4x6 thermal labels.
+ */
+export async function printBulkLabels(
+    container: MedusaContainer,
+    fulfillmentIds: string[],
+    format: LabelFormat
+): Promise<BulkLabels> {
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const fulfillments = await fulfillmentModule.listFulfillments({ id: fulfillmentIds })
+    const found = new Map(fulfillments.map((fulfillment) => [fulfillment.id, fulfillment]))
+
+    const skipped: BulkLabels["skipped"] = []
+    const printable: { fulfillment_id: string; data: Record<string, any> }[] = []
+
+    for (const fulfillmentId of new Set(fulfillmentIds)) {
+        const fulfillment = found.get(fulfillmentId)
+        const data = (fulfillment?.data || {}) as Record<string, any>
+
+        if (!fulfillment) {
+            skipped.push({ fulfillment_id: fulfillmentId, reason: "Fulfillment not found" })
+        } else if (!isShiprocketFulfillment(fulfillment)) {
+            skipped.push({ fulfillment_id: fulfillmentId, reason: "Not a Shiprocket shipment" })
+        } else if (fulfillment.canceled_at) {
+            skipped.push({ fulfillment_id: fulfillmentId, reason: "Fulfillment is canceled" })
+        } else if (!data.awb) {
+            skipped.push({ fulfillment_id: fulfillmentId, reason: "No AWB assigned yet" })
+        } else {
+            printable.push({ fulfillment_id: fulfillmentId, data })
+        }
+    }
+
+    if (!printable.length) {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "None of the fulfillments have a printable label")
+    }
+
+    printable.sort((a, b) => compareForLabels(a.data, b.data))
+
+    const client = createShiprocketClientFromEnv()
+    try {
+        const labels = await client.generateLabels(printable.map((entry) => entry.data.shipment_id))
+
+        const notCreated = new Set(labels.not_created)
+        const printed = printable.filter((entry) => {
+            if (!notCreated.has(String(entry.data.shipment_id))) return true
+            skipped.push({ fulfillment_id: entry.fulfillment_id, reason: "Shiprocket could not generate the label" })
+            return false
+        })
+
+        const source = await client.downloadDocument(labels.label_url)
+
+        return {
+            pdf: await layoutLabels(source, format),
+            printed: printed.map((entry) => entry.fulfillment_id),
+            skipped,
+        }
+    } finally {
+        client.dispose()
+    }
+}
@@ -0,0 +1,180 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { createOrderShipmentWorkflow, markOrderFulfillmentAsDeliveredWorkflow } from "@medusajs/medusa/core-flows"
+import { NormalizedStatus, normalizeStatus, PICKED_UP_STATUSES } from "../modules/shiprocket-tracking/statuses"
+import { shipmentLabels } from "../providers/shiprocket/utils/documents"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+type Lifecycle = "shipped" | "delivered"
+
+// Anything past pickup, failed deliveries, RTO and losses included, means the parcel shipped
+function getLifecycle(status: NormalizedStatus | null): Lifecycle | null {
+    if (status === "delivered") return "delivered"
+    if (status && PICKED_UP_STATUSES.includes(status)) return "shipped"
+    return null
+}
+
+/**
+ * Scan timestamps are India time without an offset, e.g. "2026-10-19 14:05:00"
+ */
+function parseScanDate(date?: string | null): Date | undefined {
+    if (!date) return undefined
+    const parsed = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(date)
+        ? new Date(`${date.replace(" ", "T")}+05:30`)
+        : new Date(date)
+    return isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+/**
+ * Time of the earliest scan reaching a lifecycle step, from the tracking scan history
+ */
+function findScanDate(scans: any[], lifecycle: Lifecycle): Date | undefined {
+    const dates = (scans || [])
+        .filter((scan) => getLifecycle(normalizeStatus(scan?.["sr-status"], scan?.["sr-status-label"] || scan?.status)) === lifecycle)
+        .map((scan) => parseScanDate(scan?.date))
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => a.getTime() - b.getTime())
+    return dates[0]
+}
+
+type FulfilledItem = { line_item_id?: string | null; inventory_item_id?: string | null; quantity: number }
+
+/**
+ * Shipped quantity per line item, as the shipment workflow expects one entry per line item.
+ * Split reservations give a line item several fulfillment items of one inventory item, which
+ * add up; inventory kits give one per component, holding `required_quantity` units per item.
+ */
+function shipmentItems(items: FulfilledItem[], orderItems: any[]) {
+    const required = new Map<string, number>()
+    for (const orderItem of orderItems) {
+        for (const inventoryItem of orderItem?.variant?.inventory_items || []) {
+            required.set(`${orderItem.id}:${inventoryItem.inventory_item_id}`, Number(inventoryItem.required_quantity) || 1)
+        }
+    }
+
+    // line item -> inventory item -> units fulfilled
+    const units = new Map<string, Map<string, number>>()
+    for (const item of items) {
+        if (!item.line_item_id) continue
+        const perInventoryItem = units.get(item.line_item_id) || new Map<string, number>()
+        const key = item.inventory_item_id || ""
+        perInventoryItem.set(key, (perInventoryItem.get(key) || 0) + Number(item.quantity))
+        units.set(item.line_item_id, perInventoryItem)
+    }
+
+    return [...units].map(([id, perInventoryItem]) => {
+        const [inventoryItemId, quantity] = [...perInventoryItem][0]
+        return { id, quantity: quantity / (required.get(`${id}:${inventoryItemId}`) || 1) }
+    })
+}
+
+/**
+ * Bring a Medusa fulfillment in line with its Shiprocket tracking: once the courier has
+ * picked the parcel up, even if it then failed delivery, went RTO or was lost, create the
+ * shipment with its tracking label; once delivered, mark it delivered at the delivery scan's
+ * time. Return shipments are left alone.
+ *
+ * Reads the stored tracking record, so call it after the record is updated.
+ *
+ * @returns the steps applied, empty when the fulfillment was already up to date
+ */
+export async function syncFulfillmentLifecycle(container: MedusaContainer, awb: string): Promise<Lifecycle[]> {
+    const logger = container.resolve("logger")
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const tracking = await trackingService.findByAwb(awb)
+    if (!tracking || tracking.is_return) return []
+
+    const lifecycle = getLifecycle(
+        tracking.normalized_status || normalizeStatus(tracking.shipment_status_id || tracking.current_status_id, tracking.current_status)
+    )
+    if (!lifecycle) return []
+
+    const shipment = await trackingService.findShipmentByAwb(awb)
+    const fulfillmentId = shipment?.medusa_fulfillment_id || tracking.medusa_fulfillment_id
+    if (!fulfillmentId) return []
+
+    const { data: [fulfillment] } = await query.graph({
+        entity: "fulfillment",
+        fields: [
+            "id",
+            "data",
+            "shipped_at",
+            "delivered_at",
+            "canceled_at",
+            "items.line_item_id",
+            "items.inventory_item_id",
+            "items.quantity",
+            "labels.*",
+            "order.id",
+        ],
+        filters: { id: fulfillmentId },
+    })
+
+    const data = ((fulfillment as any)?.data || {}) as Record<string, any>
+    const orderId = (fulfillment as any)?.order?.id || shipment?.medusa_order_id
+    // A reassigned shipment's old AWB no longer speaks for the fulfillment
+    if (!fulfillment || fulfillment.canceled_at || data.is_return || data.awb !== awb || !orderId) return []
+
+    const scans = (tracking.scans || []) as any[]
+    const applied: Lifecycle[] = []
+
+    if (!fulfillment.shipped_at) {
+        // Keep the labels written at creation, one per package AWB for multi-package shipments
+        const existingLabels = (((fulfillment as any).labels || []) as any[]).map((label) => ({
+            tracking_number: label.tracking_number,
+            tracking_url: label.tracking_url,
+            label_url: label.label_url,
+        }))
+        const labels = existingLabels.length ? existingLabels : shipmentLabels(data)
+        const { data: [order] } = await query.graph({
+            entity: "order",
+            fields: [
+                "items.id",
+                "items.variant.inventory_items.inventory_item_id",
+                "items.variant.inventory_items.required_quantity",
+            ],
+            filters: { id: orderId },
+        })
+        await createOrderShipmentWorkflow(container).run({
+            input: {
+                order_id: orderId,
+                fulfillment_id: fulfillmentId,
+                items: shipmentItems((fulfillment as any).items || [], (order as any)?.items || []),
+                labels: labels.length ? labels : [{
+                    tracking_number: awb,
+                    tracking_url: data.tracking_url || `https://shiprocket.co/tracking/${awb}`,
+                    label_url: data.label_url || "",
+                }],
+            },
+        })
+
+        const shippedAt = findScanDate(scans, "shipped")
+        if (shippedAt) {
+            await fulfillmentModule.updateFulfillment(fulfillmentId, { shipped_at: shippedAt })
+        }
+        applied.push("shipped")
+    }
+
+    if (lifecycle === "delivered" && !fulfillment.delivered_at) {
+        await markOrderFulfillmentAsDeliveredWorkflow(container).run({
+            input: { orderId, fulfillmentId },
+        })
+
+        const deliveredAt = findScanDate(scans, "delivered") ||
+            parseScanDate(tracking.raw_payload?.tracking_data?.shipment_track?.[0]?.delivered_date) ||
+            (tracking.current_timestamp ? new Date(tracking.current_timestamp) : undefined)
+        if (deliveredAt) {
+            await fulfillmentModule.updateFulfillment(fulfillmentId, { delivered_at: deliveredAt })
+        }
+        applied.push("delivered")
+    }
+
+    if (applied.length) {
+        logger.info(`Shiprocket: Fulfillment ${fulfillmentId} marked ${applied.join(" and ")} from AWB ${awb}`)
+    }
+    return applied
+}
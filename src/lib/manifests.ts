@@ -0,0 +1,150 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import { isShiprocketFulfillment } from "./fulfillments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+export type DailyManifestOptions = {
+    /** Handover day, YYYY-MM-DD. Defaults to today; shipments left over from earlier days are included. */
+    date?: string
+    /** Only manifest shipments from this Shiprocket pickup location */
+    pickup_location?: string
+    /** Group the shipments without generating manifests */
+    dry_run?: boolean
+}
+
+export type ManifestGroup = {
+    pickup_location: string
+    courier_name: string
+    courier_company_id?: number
+    fulfillment_ids: string[]
+    manifest_url?: string
+    error?: string
+}
+
+function toDay(value: unknown): string | null {
+    if (!value) return null
+    const text = String(value)
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10)
+    const date = new Date(text)
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+/**
+ * Day a shipment is handed over to the courier: its scheduled pickup, else the day it was created
+ */
+function getHandoverDay(data: Record<string, any>, createdAt: Date | string): string | null {
+    return toDay(data.pickup?.pickup_scheduled_date) || toDay(data.pickup?.pickup_date) || toDay(createdAt)
+}
+
+/**
+ * Generate the end-of-day manifests: every labelled shipment due for pickup by `date` that isn't
+ * on a manifest yet is grouped by pickup location and courier, and each group gets one manifest.
+ * The manifest URL is stored in the fulfillment `data` and on the shipment record.
+ */
+export async function generateDailyManifests(
+    container: MedusaContainer,
+    options: DailyManifestOptions = {}
+): Promise<ManifestGroup[]> {
+    const day = options.date || new Date().toISOString().slice(0, 10)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(new Date(day).getTime())) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Invalid date "${day}", expected YYYY-MM-DD`)
+    }
+
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const shipments = await trackingService.listUnmanifestedShipments()
+    if (!shipments.length) {
+        return []
+    }
+
+    const stageByFulfillment = new Map<string, string>(
+        shipments.map((shipment: any) => [shipment.medusa_fulfillment_id, shipment.stage])
+    )
+    const fulfillments = await fulfillmentModule.listFulfillments({ id: [...stageByFulfillment.keys()] })
+
+    const groups = new Map<string, ManifestGroup & { entries: { id: string; data: Record<string, any> }[] }>()
+    for (const fulfillment of fulfillments) {
+        const data = (fulfillment.data || {}) as Record<string, any>
+        if (!isShiprocketFulfillment(fulfillment) || fulfillment.canceled_at || !data.awb) continue
+
+        const handoverDay = getHandoverDay(data, fulfillment.created_at)
+        if (!handoverDay || handoverDay > day) continue
+
+        const pickupLocation = data.pickup_location || "Primary"
+        if (options.pickup_location && pickupLocation !== options.pickup_location) continue
+
+        const courierKey = data.courier_company_id || data.courier_name || "unknown"
+        const key = `${pickupLocation}|${courierKey}`
+        if (!groups.has(key)) {
+            groups.set(key, {
+                pickup_location: pickupLocation,
+                courier_name: data.courier_name || String(courierKey),
+                ...(data.courier_company_id && { courier_company_id: Number(data.courier_company_id) }),
+                fulfillment_ids: [],
+                entries: [],
+            })
+        }
+        const group = groups.get(key)!
+        group.fulfillment_ids.push(fulfillment.id)
+        group.entries.push({ id: fulfillment.id, data })
+    }
+
+    const results: ManifestGroup[] = []
+    if (options.dry_run) {
+        for (const { entries, ...group } of groups.values()) results.push(group)
+        return results
+    }
+
+    const client = createShiprocketClientFromEnv()
+    try {
+        for (const { entries, ...group } of groups.values()) {
+            try {
+                // A shipment manifested in the Shiprocket panel can't be manifested again; print it instead
+                const manifestUrl = await client.generateManifest(entries.map((entry) => entry.data.shipment_id))
+                    .catch(async (error: any) => {
+                        const printed = await client.printManifest(
+                            entries.map((entry) => entry.data.sr_order_id || entry.data.order_id)
+                        )
+                        if (!printed) throw error
+                        return printed
+                    })
+
+                const manifestedAt = new Date()
+                for (const entry of entries) {
+                    await fulfillmentModule.updateFulfillment(entry.id, {
+                        data: {
+                            ...entry.data,
+                            manifest_url: manifestUrl,
+                            manifested_at: manifestedAt.toISOString(),
+                        },
+                    })
+                    await trackingService.upsertShipment({
+                        medusa_fulfillment_id: entry.id,
+                        stage: stageByFulfillment.get(entry.id),
+                        manifest_url: manifestUrl,
+                        manifested_at: manifestedAt,
+                    })
+                }
+
+                logger.info(
+                    `Shiprocket: Manifest for ${group.courier_name} at ${group.pickup_location} ` +
+                    `covers ${entries.length} shipment(s)`
+                )
+                results.push({ ...group, manifest_url: manifestUrl })
+            } catch (error: any) {
+                logger.error(
+                    `Shiprocket: Manifest for ${group.courier_name} at ${group.pickup_location} failed: ${error.message}`
+                )
+                results.push({ ...group, error: error.message })
+            }
+        }
+    } finally {
+        client.dispose()
+    }
+
+    return results
+}
@@ -0,0 +1,158 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import {
+    getNdrDetails,
+    isNdrClosingStatus,
+    NdrAction,
+    NdrStatus,
+    validateReattemptDate,
+} from "../providers/shiprocket/utils/ndr"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Emitted when the courier reports a new failed delivery attempt
+ */
+export const NDR_RAISED_EVENT = "shiprocket.ndr.raised"
+
+/**
+ * Record the failed delivery attempts (NDR) of a tracking update on its tracking record.
+ * A new attempt reopens the NDR and emits shiprocket.ndr.raised; delivery, RTO or
+ * cancellation closes it. Call after the tracking record itself is upserted.
+ *
+ * @returns the NDR status after the update, or null when the update doesn't touch it
+ */
+export async function recordNdr(
+    container: MedusaContainer,
+    awb: string,
+    statusId?: number | null,
+    status?: string | null,
+    scans: any[] = []
+): Promise<NdrStatus | null> {
+    const logger = container.resolve("logger")
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const tracking = await trackingService.findByAwb(awb)
+    if (!tracking) return null
+
+    const details = getNdrDetails(statusId, status, scans)
+    if (!details) {
+        const open = tracking.ndr_status && tracking.ndr_status !== "closed"
+        if (open && isNdrClosingStatus(statusId, status)) {
+            await trackingService.updateNdr(awb, { status: "closed" })
+            return "closed"
+        }
+        return null
+    }
+
+    // Scans repeat the whole history: a higher count, or an NDR after an action, is a new attempt
+    const previousAttempts = tracking.ndr_attempts || 0
+    const isNewAttempt = details.attempts > previousAttempts || tracking.ndr_status !== "open"
+    const attemptCount = details.attempts > previousAttempts ? details.attempts : previousAttempts + (isNewAttempt ? 1 : 0)
+
+    await trackingService.updateNdr(awb, {
+        ...(isNewAttempt && { status: "open" }),
+        attempts: attemptCount,
+        reason: details.reason || tracking.ndr_reason || null,
+        last_attempt_at: details.last_attempt_at || tracking.ndr_last_attempt_at || new Date(),
+    })
+
+    if (isNewAttempt) {
+        logger.warn(`Shiprocket: Delivery attempt ${attemptCount} failed for AWB ${awb}: ${details.reason || "no reason given"}`)
+        await container.resolve(Modules.EVENT_BUS).emit({
+            name: NDR_RAISED_EVENT,
+            data: {
+                awb,
+                attempts: attemptCount,
+                reason: details.reason,
+                medusa_fulfillment_id: tracking.medusa_fulfillment_id,
+            },
+        }).catch((err: any) => {
+            logger.warn(`Shiprocket: Failed to emit ${NDR_RAISED_EVENT} for AWB ${awb}: ${err.message}`)
+        })
+    }
+
+    return isNewAttempt ? "open" : tracking.ndr_status
+}
+
+/**
+ * Act on the open NDR of a shipment: request another delivery attempt, optionally on a
+ * given date or at a corrected address and phone, or return the shipment to origin.
+ * The action is sent to Shiprocket and kept in the tracking record `ndr_actions`.
+ */
+export async function takeNdrAction(
+    container: MedusaContainer,
+    awb: string,
+    action: Omit<NdrAction, "requested_at">
+) {
+    const logger = container.resolve("logger")
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const tracking = await trackingService.findByAwb(awb)
+    if (!tracking) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Tracking for AWB ${awb} not found`)
+    }
+
+    const actionable: NdrStatus[] = action.action === "rto"
+        ? ["open", "reattempt_requested"]
+        : ["open"]
+    if (!actionable.includes(tracking.ndr_status)) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            tracking.ndr_status
+                ? `NDR of AWB ${awb} is ${String(tracking.ndr_status).replace("_", " ")}`
+                : `AWB ${awb} has no failed delivery attempt`
+        )
+    }
+
+    if (action.proposed_date) {
+        const dateError = validateReattemptDate(action.proposed_date)
+        if (dateError) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, dateError)
+        }
+    }
+
+    const record: NdrAction = {
+        ...action,
+        requested_at: new Date().toISOString(),
+    }
+
+    const client = createShiprocketClientFromEnv()
+    try {
+        await client.actionNdr(awb, record)
+    } finally {
+        client.dispose()
+    }
+
+    const updated = await trackingService.updateNdr(awb, {
+        status: action.action === "rto" ? "rto_requested" : "reattempt_requested",
+        action: record,
+    })
+
+    logger.info(
+        `Shiprocket: ${action.action === "rto" ? "Return to origin" : "Delivery re-attempt"} requested ` +
+        `for AWB ${awb} by ${action.requested_by}`
+    )
+
+    return {
+        awb,
+        ndr_status: updated.ndr_status as NdrStatus,
+        ndr_attempts: updated.ndr_attempts as number,
+        ndr_reason: updated.ndr_reason as string | null,
+        ndr_actions: (updated.ndr_actions || []) as NdrAction[],
+    }
+}
+
+/**
+ * Medusa order of a shipment by AWB, from its shipment record or its tracking record
+ */
+export async function findOrderIdByAwb(container: MedusaContainer, awb: string): Promise<string | null> {
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const shipment = await trackingService.findShipmentByAwb(awb)
+    if (shipment?.medusa_order_id) return shipment.medusa_order_id
+
+    const tracking = await trackingService.findByAwb(awb)
+    return tracking?.medusa_order_id || null
+}
@@ -0,0 +1,62 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import {
+    getCodPayment,
+    SHIPROCKET_COD_METADATA_KEY,
+    ShiprocketCodMetadata,
+} from "../providers/shiprocket/utils/payment"
+
+const ORDER_PAYMENT_FIELDS = [
+    "id",
+    "total",
+    "metadata",
+    "payment_collections.status",
+    "payment_collections.captured_amount",
+    "payment_collections.payment_sessions.provider_id",
+]
+
+async function retrieveOrderPayments(container: MedusaContainer, orderId: string) {
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+    const { data: [order] } = await query.graph({
+        entity: "order",
+        fields: ORDER_PAYMENT_FIELDS,
+        filters: { id: orderId },
+    })
+    if (!order) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Order ${orderId} not found`)
+    }
+    return order
+}
+
+/**
+ * Amount an order still owes on delivery, read from its payment collections now.
+ * Pass it as `metadata.shiprocket_cod` when creating a fulfillment so the shipment is COD
+ * for exactly that amount, or Prepaid when nothing is owed.
+ */
+export async function getOrderCodPayment(container: MedusaContainer, orderId: string): Promise<ShiprocketCodMetadata> {
+    return getCodPayment(await retrieveOrderPayments(container, orderId))
+}
+
+/**
+ * Store an order's current COD payment in its metadata, for fulfillments created without one
+ */
+export async function refreshOrderCodPayment(container: MedusaContainer, orderId: string): Promise<ShiprocketCodMetadata> {
+    const orderModule = container.resolve(Modules.ORDER)
+    const order = await retrieveOrderPayments(container, orderId)
+
+    const cod = getCodPayment(order)
+    const previous = (order.metadata || {})[SHIPROCKET_COD_METADATA_KEY] as ShiprocketCodMetadata | undefined
+
+    // Prepaid orders never flagged as COD need no metadata
+    if (cod.collectable_amount > 0 || previous) {
+        await orderModule.updateOrders(order.id, {
+            metadata: {
+                ...(order.metadata || {}),
+                [SHIPROCKET_COD_METADATA_KEY]: cod,
+            },
+        })
+    }
+
+    return cod
+}
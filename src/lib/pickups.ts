@@ -0,0 +1,83 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import type { ShiprocketPickup } from "../providers/shiprocket/client/types"
+import { isShiprocketFulfillment } from "./fulfillments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+export type SchedulePickupOptions = {
+    /** Requested pickup date, YYYY-MM-DD. Defaults to the next slot Shiprocket offers. */
+    pickup_date?: string
+    /** Request a new pickup after a missed one */
+    reschedule?: boolean
+}
+
+/**
+ * Validate a requested pickup date: YYYY-MM-DD, today or later
+ */
+export function validatePickupDate(pickupDate?: string): void {
+    if (!pickupDate) return
+
+    const date = new Date(`${pickupDate}T00:00:00`)
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(pickupDate) || isNaN(date.getTime())) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Invalid pickup_date "${pickupDate}", expected YYYY-MM-DD`)
+    }
+    if (date < today) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `pickup_date ${pickupDate} is in the past`)
+    }
+}
+
+/**
+ * Request (or reschedule) a courier pickup for a Shiprocket fulfillment.
+ * The pickup token and scheduled date are stored in the fulfillment `data.pickup`
+ * and on the tracking record.
+ */
+export async function schedulePickupForFulfillment(
+    container: MedusaContainer,
+    fulfillmentId: string,
+    options: SchedulePickupOptions = {}
+): Promise<ShiprocketPickup> {
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const fulfillment = await fulfillmentModule.retrieveFulfillment(fulfillmentId)
+    const data = (fulfillment.data || {}) as Record<string, any>
+
+    if (!isShiprocketFulfillment(fulfillment)) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Fulfillment ${fulfillmentId} is not a Shiprocket shipment`)
+    }
+    if (!data.awb) {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, `Fulfillment ${fulfillmentId} has no AWB yet`)
+    }
+    if (data.pickup?.pickup_token_number && !options.reschedule) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `Pickup already scheduled for fulfillment ${fulfillmentId}, pass reschedule to request a new one`
+        )
+    }
+    validatePickupDate(options.pickup_date)
+
+    const client = createShiprocketClientFromEnv()
+    try {
+        const pickup = await client.schedulePickup([data.shipment_id], options.pickup_date, options.reschedule)
+
+        await fulfillmentModule.updateFulfillment(fulfillmentId, {
+            data: { ...data, pickup },
+        })
+
+        const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+        const tracking = await trackingService.findByAwb(data.awb)
+        if (tracking && pickup.pickup_scheduled_date) {
+            await trackingService.updateShiprocketTrackings([{
+                id: tracking.id,
+                pickup_scheduled_date: new Date(pickup.pickup_scheduled_date),
+            }])
+        }
+
+        return pickup
+    } finally {
+        client.dispose()
+    }
+}
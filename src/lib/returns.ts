@@ -0,0 +1,184 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import { createShiprocketClientFromEnv } from "../providers/shiprocket/client/from-env"
+import type { ShiprocketReturnQc, ShiprocketReturnStatus } from "../providers/shiprocket/client/types"
+import { buildReturnQc } from "../providers/shiprocket/utils/returns"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+export type ReturnShipmentOptions = {
+    /** Override the return option's `qc_enable` */
+    qc_enable?: boolean
+}
+
+export type ReturnShipmentResult = {
+    fulfillment_id: string
+    return_status: ShiprocketReturnStatus
+    awb?: string
+    error?: string
+}
+
+const RETURN_FIELDS = [
+    "id",
+    "order_id",
+    "exchange_id",
+    "items.item_id",
+    "items.note",
+    "items.metadata",
+    "items.reason.label",
+    "fulfillments.id",
+    "fulfillments.provider_id",
+    "fulfillments.location_id",
+    "fulfillments.canceled_at",
+    "fulfillments.data",
+    "fulfillments.items.*",
+    "fulfillments.delivery_address.*",
+    "order.id",
+    "order.email",
+    "order.currency_code",
+    "order.item_total",
+    "order.discount_total",
+    "order.shipping_address.*",
+    "order.items.*",
+    "order.items.tax_lines.rate",
+    "order.items.variant.*",
+    "order.items.variant.options.value",
+    "order.items.variant.options.option.title",
+    "order.items.variant.product.*",
+]
+
+/**
+ * Find the Shiprocket return fulfillment of a return, with the order data needed to build it
+ */
+async function retrieveShiprocketReturn(container: MedusaContainer, returnId: string) {
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+    const { data: [orderReturn] } = await query.graph({
+        entity: "return",
+        fields: RETURN_FIELDS,
+        filters: { id: returnId },
+    })
+
+    if (!orderReturn) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Return ${returnId} not found`)
+    }
+
+    const fulfillment = ((orderReturn as any).fulfillments || []).find((candidate: any) =>
+        candidate?.provider_id?.includes("shiprocket") && !candidate.canceled_at
+    )
+
+    return { orderReturn: orderReturn as any, fulfillment: fulfillment as any | undefined }
+}
+
+/**
+ * Create the Shiprocket reverse pickup of a Medusa return and assign its AWB.
+ *
+ * Safe to call again: a return order that exists without an AWB only gets the AWB assigned,
+ * and a return that already has an AWB is left alone. Progress is stored in the return
+ * fulfillment `data.return_status`.
+ *
+ * @returns null when the return isn't shipped with Shiprocket
+ */
+export async function createReturnShipment(
+    container: MedusaContainer,
+    returnId: string,
+    options: ReturnShipmentOptions = {}
+): Promise<ReturnShipmentResult | null> {
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+
+    const { orderReturn, fulfillment } = await retrieveShiprocketReturn(container, returnId)
+    if (!fulfillment) {
+        return null
+    }
+
+    const data = (fulfillment.data || {}) as Record<string, any>
+    if (data.awb) {
+        return { fulfillment_id: fulfillment.id, return_status: "awb_assigned", awb: data.awb }
+    }
+
+    const client = createShiprocketClientFromEnv()
+    try {
+        let result: Record<string, any>
+
+        if (data.shipment_id) {
+            // The return order exists, only the reverse AWB is missing
+            const assigned = await client.assignAwb(data.shipment_id, null, true)
+            result = {
+                awb: assigned.awb,
+                courier_company_id: assigned.courier_company_id,
+                courier_name: assigned.courier_name,
+                tracking_number: assigned.awb,
+                tracking_url: `https://shiprocket.co/tracking/${assigned.awb}`,
+            }
+            result.label_url = await client.generateLabel({ shipment_id: data.shipment_id }) || undefined
+        } else {
+            const returnItems = new Map<string, any>(
+                (orderReturn.items || []).map((item: any) => [item.item_id, item])
+            )
+            const qc: Record<string, ShiprocketReturnQc> = {}
+            for (const orderItem of orderReturn.order?.items || []) {
+                if (returnItems.has(orderItem.id)) {
+                    qc[orderItem.id] = buildReturnQc(orderItem, returnItems.get(orderItem.id))
+                }
+            }
+
+            const destination = fulfillment.location_id
+                ? await container.resolve(Modules.STOCK_LOCATION)
+                    .retrieveStockLocation(fulfillment.location_id)
+                    .catch(() => null)
+                : null
+
+            result = await client.createReturn(fulfillment, orderReturn.order, {
+                qc_enable: options.qc_enable ?? !!data.qc_enable,
+                qc,
+                destination_name: destination?.name,
+            })
+        }
+
+        const returnStatus: ShiprocketReturnStatus = result.awb ? "awb_assigned" : "awb_pending"
+        await fulfillmentModule.updateFulfillment(fulfillment.id, {
+            data: { ...data, ...result, return_status: returnStatus, last_error: result.last_error || null },
+            ...(result.awb && {
+                labels: [{
+                    tracking_number: result.awb,
+                    tracking_url: result.tracking_url || "",
+                    label_url: result.label_url || "",
+                }],
+            }),
+        })
+
+        if (result.awb && orderReturn.exchange_id) {
+            // Exchange replacements follow the reverse pickup by its AWB
+            await container.resolve<any>(SHIPROCKET_TRACKING_MODULE).upsertExchange({
+                exchange_id: orderReturn.exchange_id,
+                medusa_order_id: orderReturn.order_id,
+                return_fulfillment_id: fulfillment.id,
+                return_awb: result.awb,
+            })
+        }
+
+        if (result.awb) {
+            logger.info(`Shiprocket: Reverse pickup AWB ${result.awb} assigned to return ${returnId}`)
+        } else {
+            logger.warn(`Shiprocket: Return order created for return ${returnId}, AWB pending: ${result.last_error}`)
+        }
+
+        return {
+            fulfillment_id: fulfillment.id,
+            return_status: returnStatus,
+            awb: result.awb,
+            ...(result.last_error && { error: result.last_error }),
+        }
+    } catch (error: any) {
+        await fulfillmentModule.updateFulfillment(fulfillment.id, {
+            data: {
+                ...data,
+                return_status: data.shipment_id ? "awb_pending" : "failed",
+                last_error: error.message,
+            },
+        })
+        throw error
+    } finally {
+        client.dispose()
+    }
+}
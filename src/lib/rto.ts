@@ -0,0 +1,194 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules, OrderChangeStatus, ReturnStatus } from "@medusajs/framework/utils"
+import {
+    beginReceiveReturnWorkflow,
+    beginReturnOrderWorkflow,
+    cancelReturnReceiveWorkflow,
+    cancelReturnRequestWorkflow,
+    confirmReturnReceiveWorkflow,
+    confirmReturnRequestWorkflow,
+    receiveItemReturnRequestWorkflow,
+    requestItemReturnWorkflow,
+} from "@medusajs/medusa/core-flows"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Emitted once an RTO shipment is back at its origin and received as a Medusa return,
+ * so refund or cancellation policies can run
+ */
+export const RTO_RECEIVED_EVENT = "shiprocket.rto.received"
+
+const RTO_DELIVERED_STATUS_ID = 10
+
+/**
+ * Whether a tracking update reports the shipment delivered back to its origin
+ */
+export function isRtoDelivered(statusId?: number | null, status?: string | null): boolean {
+    return statusId === RTO_DELIVERED_STATUS_ID || /RTO\s+DELIVERED/.test(String(status || "").toUpperCase())
+}
+
+async function retrieveReturnStatus(container: MedusaContainer, returnId: string): Promise<string | null> {
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+    const { data: [orderReturn] } = await query.graph({
+        entity: "return",
+        fields: ["id", "status"],
+        filters: { id: returnId },
+    })
+    return (orderReturn?.status as string) || null
+}
+
+/**
+ * Receive a shipment returned to origin (RTO) as a Medusa return: open a return for the
+ * fulfillment's items at its stock location and receive it right away, which restocks the
+ * inventory. Emits shiprocket.rto.received with the return.
+ *
+ * Safe to call again: the return id is kept in the fulfillment `data.rto_return_id` as soon as
+ * the return is opened, and a later call picks up from the return's status. A step that fails
+ * cancels its pending order change, so no half-made request or receipt is left behind.
+ *
+ * @returns null when the AWB isn't a forward Shiprocket shipment
+ */
+export async function receiveRtoShipment(container: MedusaContainer, awb: string) {
+    const logger = container.resolve("logger")
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const shipment = await trackingService.findShipmentByAwb(awb)
+    const tracking = shipment ? null : await trackingService.findByAwb(awb)
+    const fulfillmentId = shipment?.medusa_fulfillment_id || tracking?.medusa_fulfillment_id
+    if (!fulfillmentId) return null
+
+    const { data: [fulfillment] } = await query.graph({
+        entity: "fulfillment",
+        fields: ["id", "location_id", "canceled_at", "data", "items.line_item_id", "items.quantity", "order.id"],
+        filters: { id: fulfillmentId },
+    })
+
+    const data = ((fulfillment as any)?.data || {}) as Record<string, any>
+    if (!fulfillment || data.is_return) return null
+    if (data.rto_received_at) {
+        return { fulfillment_id: fulfillmentId, return_id: data.rto_return_id as string, created: false }
+    }
+
+    const orderId = (fulfillment as any).order?.id || shipment?.medusa_order_id
+    if (!orderId) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Order of fulfillment ${fulfillmentId} not found`)
+    }
+
+    const items = ((fulfillment as any).items || [])
+        .filter((item: any) => item?.line_item_id && Number(item.quantity) > 0)
+        .map((item: any) => ({ id: item.line_item_id as string, quantity: Number(item.quantity) }))
+    if (!items.length) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Fulfillment ${fulfillmentId} has no items to return`)
+    }
+
+    const note = `Returned to origin by the courier (Shiprocket AWB ${awb})`
+
+    const saveProgress = async (progress: Record<string, any>) => {
+        Object.assign(data, progress)
+        await fulfillmentModule.updateFulfillment(fulfillmentId, { data })
+    }
+
+    const cancelChange = async (cancel: () => Promise<unknown>, returnId: string) => {
+        try {
+            await cancel()
+        } catch (cancelError: any) {
+            logger.warn(`Shiprocket: Failed to cancel the order change of RTO return ${returnId}: ${cancelError.message}`)
+        }
+    }
+
+    let returnId = data.rto_return_id as string | undefined
+    let status = returnId ? await retrieveReturnStatus(container, returnId) : null
+
+    // A request an earlier attempt left unconfirmed may hold some of its items already, start over
+    if (returnId && status === ReturnStatus.OPEN) {
+        const staleId = returnId
+        await cancelChange(() => cancelReturnRequestWorkflow(container).run({ input: { return_id: staleId } }), staleId)
+        status = null
+    }
+    if (!status || status === ReturnStatus.CANCELED) {
+        returnId = undefined
+    }
+
+    if (!returnId) {
+        // Same steps as an admin return without shipping: request, then receive at the origin location
+        const { result: orderChange } = await beginReturnOrderWorkflow(container).run({
+            input: {
+                order_id: orderId,
+                location_id: fulfillment.location_id,
+                description: "Shiprocket RTO",
+                internal_note: note,
+                metadata: { shiprocket_rto_awb: awb, fulfillment_id: fulfillmentId },
+            },
+        })
+        const openedId = orderChange.return_id as string
+        await saveProgress({ rto_return_id: openedId })
+
+        try {
+            await requestItemReturnWorkflow(container).run({
+                input: {
+                    return_id: openedId,
+                    items: items.map((item) => ({ ...item, internal_note: note })),
+                },
+            })
+            await confirmReturnRequestWorkflow(container).run({ input: { return_id: openedId } })
+        } catch (err) {
+            await cancelChange(() => cancelReturnRequestWorkflow(container).run({ input: { return_id: openedId } }), openedId)
+            await saveProgress({ rto_return_id: null })
+            throw err
+        }
+
+        returnId = openedId
+        status = ReturnStatus.REQUESTED
+    }
+
+    if (status === ReturnStatus.REQUESTED) {
+        const requestedId = returnId
+        const cancelReceive = () => cancelChange(
+            () => cancelReturnReceiveWorkflow(container).run({ input: { return_id: requestedId } }),
+            requestedId
+        )
+
+        // A receipt an earlier attempt began is still pending, drop it before receiving again
+        const [pending] = await container.resolve(Modules.ORDER).listOrderChanges({
+            return_id: requestedId,
+            status: [OrderChangeStatus.PENDING, OrderChangeStatus.REQUESTED],
+        })
+        if (pending) await cancelReceive()
+
+        // The request stays confirmed, so the next call only retries the receipt
+        let began = false
+        try {
+            await beginReceiveReturnWorkflow(container).run({
+                input: { return_id: requestedId, description: "Shiprocket RTO", internal_note: note },
+            })
+            began = true
+            await receiveItemReturnRequestWorkflow(container).run({
+                input: { return_id: requestedId, items },
+            })
+            await confirmReturnReceiveWorkflow(container).run({ input: { return_id: requestedId } })
+        } catch (err) {
+            if (began) await cancelReceive()
+            throw err
+        }
+    }
+
+    await saveProgress({ rto_received_at: new Date().toISOString() })
+
+    logger.info(`Shiprocket: RTO of AWB ${awb} received as return ${returnId} for order ${orderId}`)
+
+    await container.resolve(Modules.EVENT_BUS).emit({
+        name: RTO_RECEIVED_EVENT,
+        data: {
+            order_id: orderId,
+            fulfillment_id: fulfillmentId,
+            return_id: returnId,
+            awb,
+        },
+    })
+
+    return { fulfillment_id: fulfillmentId, return_id: returnId, created: true }
+}
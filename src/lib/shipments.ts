@@ -0,0 +1,324 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { isTransientError } from "../providers/shiprocket/client/handle-error"
+import type { ShiprocketShipmentStage } from "../providers/shiprocket/client/types"
+import { getCourierRules } from "../providers/shiprocket/utils"
+import { documentUrlsData, shipmentLabels } from "../providers/shiprocket/utils/documents"
+import { createShiprocketClient } from "./client"
+import { isShiprocketFulfillment } from "./fulfillments"
+import { schedulePickupForFulfillment } from "./pickups"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Give up on a shipment after this many background attempts
+ */
+export const SHIPMENT_MAX_ATTEMPTS = 8
+
+const RETRY_BASE_MS = 5 * 60 * 1000 // 5 minutes
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+/**
+ * Exponential backoff for the next background attempt: 5 min, 10 min, 20 min ... capped at 6 hours
+ */
+export function nextAttemptAt(attempts: number): Date {
+    return new Date(Date.now() + Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS))
+}
+
+/**
+ * Resume creating a shipment from its last completed stage: assign the AWB if it is
+ * still pending, then generate the label. Progress is written to the fulfillment `data`
+ * and labels, and to the shipment record.
+ *
+ * Transient failures are rescheduled with backoff; anything else, or too many attempts,
+ * marks the shipment as failed.
+ */
+export async function resumeShipment(
+    container: MedusaContainer,
+    fulfillmentId: string
+): Promise<{ stage: ShiprocketShipmentStage; error?: string }> {
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const fulfillment = await fulfillmentModule.retrieveFulfillment(fulfillmentId)
+    const record = await trackingService.findShipmentByFulfillmentId(fulfillmentId)
+    const data = { ...(fulfillment.data || {}) } as Record<string, any>
+    let stage = (data.stage || record?.stage || (data.awb ? "awb_assigned" : "order_created")) as ShiprocketShipmentStage
+
+    // A manual retry of a shipment the job gave up on starts a fresh round of attempts
+    const previousAttempts = stage === "failed" ? 0 : record?.attempts || 0
+
+    // Held exchange replacements ship when their exchange is released, see lib/exchanges
+    if (stage === "on_hold") {
+        return { stage, error: `Shipment is held until exchange ${data.exchange_id} is released` }
+    }
+    if (stage === "failed") {
+        stage = data.awb ? "awb_assigned" : "awb_pending"
+    }
+
+    const client = createShiprocketClient(container)
+
+    try {
+        if (stage === "order_created" || stage === "awb_pending") {
+            // A shipment whose AWB was cancelled by a courier reassignment needs a reassign request
+            const assigned = await client.assignAwb(data.shipment_id, data.courier_company_id, false, !!data.previous_awbs?.length)
+
+            stage = "awb_assigned"
+            Object.assign(data, {
+                stage,
+                last_error: null,
+                awb: assigned.awb,
+                courier_company_id: assigned.courier_company_id,
+                courier_name: assigned.courier_name || data.courier_name,
+                tracking_number: assigned.awb,
+                tracking_url: `https://shiprocket.co/tracking/${assigned.awb}`,
+            })
+            if (Array.isArray(data.packages) && data.packages.length === 1) {
+                data.packages = [{ ...data.packages[0], awb: assigned.awb, tracking_url: data.tracking_url }]
+            }
+
+            await fulfillmentModule.updateFulfillment(fulfillmentId, { data })
+            logger.info(`Shiprocket: AWB ${assigned.awb} assigned to fulfillment ${fulfillmentId}`)
+        }
+
+        if (stage === "awb_assigned") {
+            const { label, invoice } = await client.createDocuments(data)
+            if (!label) {
+                throw new Error("Shiprocket could not generate the label, please try again")
+            }
+
+            stage = "documents_ready"
+            data.stage = stage
+            Object.assign(data, documentUrlsData({
+                label_url: label,
+                invoice_url: invoice,
+            }, data.awb))
+            // Multi-package shipments keep one label per package AWB
+            await fulfillmentModule.updateFulfillment(fulfillmentId, {
+                data,
+                labels: shipmentLabels(data, label),
+            })
+        }
+
+        // Providers configured with auto_pickup flag their shipments; request the pickup now that the AWB exists
+        if (data.auto_pickup && !data.pickup) {
+            await schedulePickupForFulfillment(container, fulfillmentId).catch((err: any) => {
+                logger.warn(`Shiprocket: Could not schedule pickup for fulfillment ${fulfillmentId}: ${err.message}`)
+            })
+        }
+
+        await trackingService.upsertShipment({
+            medusa_fulfillment_id: fulfillmentId,
+            awb: data.awb,
+            courier_company_id: data.courier_company_id,
+            stage,
+            attempts: previousAttempts,
+            last_error: null,
+            next_attempt_at: null,
+        })
+
+        return { stage }
+    } catch (error: any) {
+        const attempts = previousAttempts + 1
+        const failed = !isTransientError(error) || attempts >= SHIPMENT_MAX_ATTEMPTS
+
+        await trackingService.upsertShipment({
+            medusa_fulfillment_id: fulfillmentId,
+            stage: failed ? "failed" : stage,
+            attempts,
+            last_error: error.message,
+            next_attempt_at: failed ? null : nextAttemptAt(attempts),
+        })
+
+        if (failed) {
+            await fulfillmentModule.updateFulfillment(fulfillmentId, {
+                data: { ...data, stage: "failed", last_error: error.message },
+            })
+            logger.error(`Shiprocket: Giving up on shipment for fulfillment ${fulfillmentId}: ${error.message}`)
+        } else {
+            logger.warn(`Shiprocket: Shipment for fulfillment ${fulfillmentId} not finished, will retry: ${error.message}`)
+        }
+
+        return { stage: failed ? "failed" : stage, error: error.message }
+    } finally {
+        client.dispose()
+    }
+}
+
+export type ReassignCourierOptions = {
+    /** Shiprocket courier_company_id to move to; the preferred other courier on the route when omitted */
+    courier_id?: number
+}
+
+export type ReassignCourierResult = {
+    stage: ShiprocketShipmentStage
+    previous_awb: string
+    awb?: string
+    courier_company_id?: number
+    courier_name?: string
+    tracking_url?: string
+    label_url?: string
+    error?: string
+}
+
+/**
+ * Move a shipment to another courier, e.g. when the courier refused the pickup: cancel its
+ * AWB, keep the Shiprocket order, and assign a new AWB. The new AWB, tracking URL and label
+ * replace the old ones on the fulfillment, and tracking starts over.
+ *
+ * The new courier is picked before the old AWB is cancelled. If the new AWB can't be assigned
+ * afterwards, the shipment is left `awb_pending` for the retry job.
+ */
+export async function reassignCourier(
+    container: MedusaContainer,
+    fulfillmentId: string,
+    options: ReassignCourierOptions = {}
+): Promise<ReassignCourierResult> {
+    const logger = container.resolve("logger")
+    const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+    const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+
+    const fulfillment = await fulfillmentModule.retrieveFulfillment(fulfillmentId, {
+        relations: ["delivery_address"],
+    })
+    const data = { ...(fulfillment.data || {}) } as Record<string, any>
+
+    if (!isShiprocketFulfillment(fulfillment) || data.is_return) {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, `Fulfillment ${fulfillmentId} is not a Shiprocket shipment`)
+    }
+    if (fulfillment.canceled_at || fulfillment.shipped_at || fulfillment.delivered_at) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `Fulfillment ${fulfillmentId} is already ${fulfillment.canceled_at ? "canceled" : "picked up"}`
+        )
+    }
+    if (!data.awb) {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, `Fulfillment ${fulfillmentId} has no AWB to reassign`)
+    }
+    if (data.is_mps) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            "Multi-package shipments can't change courier, cancel the fulfillment and create it again"
+        )
+    }
+    if (options.courier_id && Number(options.courier_id) === Number(data.courier_company_id)) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Shipment is already with courier ${options.courier_id}`)
+    }
+
+    const previousAwb = data.awb as string
+    const client = createShiprocketClient(container)
+
+    try {
+        let courierId = options.courier_id ? Number(options.courier_id) : null
+        if (!courierId) {
+            const shippingOption = fulfillment.shipping_option_id
+                ? await fulfillmentModule.retrieveShippingOption(fulfillment.shipping_option_id).catch(() => null)
+                : null
+            courierId = await client.findReassignmentCourier(fulfillment, getCourierRules(shippingOption?.data))
+        }
+
+        await client.cancelAwb(previousAwb)
+
+        // The old AWB's documents, manifest and pickup no longer apply
+        const {
+            label_url, invoice_url, manifest_url, documents_generated_at, documents_awb, pickup,
+            ...rest
+        } = data
+        const reassigned: Record<string, any> = {
+            ...rest,
+            awb: undefined,
+            tracking_number: undefined,
+            tracking_url: undefined,
+            courier_company_id: courierId,
+            previous_awbs: [...(data.previous_awbs || []), previousAwb],
+        }
+
+        let assigned
+        try {
+            assigned = await client.assignAwb(data.shipment_id, courierId, false, true)
+        } catch (error: any) {
+            await fulfillmentModule.updateFulfillment(fulfillmentId, {
+                data: { ...reassigned, stage: "awb_pending", last_error: error.message },
+                labels: [],
+            })
+            await trackingService.upsertShipment({
+                medusa_fulfillment_id: fulfillmentId,
+                awb: null,
+                courier_company_id: courierId,
+                stage: "awb_pending",
+                attempts: 0,
+                last_error: error.message,
+                next_attempt_at: nextAttemptAt(0),
+                manifest_url: null,
+                manifested_at: null,
+            })
+            logger.warn(
+                `Shiprocket: AWB ${previousAwb} of fulfillment ${fulfillmentId} cancelled, ` +
+                `new AWB pending: ${error.message}`
+            )
+            return { stage: "awb_pending", previous_awb: previousAwb, error: error.message }
+        }
+
+        Object.assign(reassigned, {
+            stage: "awb_assigned",
+            last_error: null,
+            awb: assigned.awb,
+            courier_company_id: assigned.courier_company_id || courierId,
+            courier_name: assigned.courier_name,
+            tracking_number: assigned.awb,
+            tracking_url: `https://shiprocket.co/tracking/${assigned.awb}`,
+        })
+        if (Array.isArray(reassigned.packages) && reassigned.packages.length === 1) {
+            reassigned.packages = [{ ...reassigned.packages[0], awb: assigned.awb, tracking_url: reassigned.tracking_url }]
+        }
+
+        await fulfillmentModule.updateFulfillment(fulfillmentId, {
+            data: reassigned,
+            labels: [{
+                tracking_number: assigned.awb,
+                tracking_url: reassigned.tracking_url,
+                label_url: "",
+            }],
+        })
+        await trackingService.upsertShipment({
+            medusa_fulfillment_id: fulfillmentId,
+            awb: assigned.awb,
+            courier_company_id: reassigned.courier_company_id,
+            stage: "awb_assigned",
+            attempts: 0,
+            last_error: null,
+            next_attempt_at: new Date(),
+            manifest_url: null,
+            manifested_at: null,
+        })
+        await trackingService.resetTracking({
+            previous_awb: previousAwb,
+            awb: assigned.awb,
+            medusa_fulfillment_id: fulfillmentId,
+            courier_name: assigned.courier_name,
+        })
+
+        logger.info(
+            `Shiprocket: Fulfillment ${fulfillmentId} moved from AWB ${previousAwb} to ${assigned.awb}` +
+            (assigned.courier_name ? ` (${assigned.courier_name})` : "")
+        )
+    } finally {
+        client.dispose()
+    }
+
+    // Label, invoice and pickup for the new AWB
+    const result = await resumeShipment(container, fulfillmentId)
+    const updated = await fulfillmentModule.retrieveFulfillment(fulfillmentId)
+    const updatedData = (updated.data || {}) as Record<string, any>
+
+    return {
+        ...result,
+        previous_awb: previousAwb,
+        awb: updatedData.awb,
+        courier_company_id: updatedData.courier_company_id,
+        courier_name: updatedData.courier_name,
+        tracking_url: updatedData.tracking_url,
+        label_url: updatedData.label_url,
+    }
+}
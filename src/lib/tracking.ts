@@ -0,0 +1,22 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+
+export const TRACKING_UPDATED_EVENT = "shiprocket.tracking.updated"
+
+export type TrackingUpdatedEvent = {
+    awb: string
+    tracking_id: string
+    current_status: string
+    shipment_status_id: number
+}
+
+/**
+ * Announce a stored tracking update, from a webhook or a manual sync alike.
+ * The tracking subscriber then updates the fulfillment, receives RTOs and moves exchanges along.
+ */
+export async function emitTrackingUpdated(container: MedusaContainer, data: TrackingUpdatedEvent): Promise<void> {
+    await container.resolve(Modules.EVENT_BUS).emit({
+        name: TRACKING_UPDATED_EVENT,
+        data,
+    })
+}
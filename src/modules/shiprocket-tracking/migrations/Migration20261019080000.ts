@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019080000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" add column if not exists "origin" text null, add column if not exists "destination" text null, add column if not exists "weight" text null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" drop column if exists "origin", drop column if exists "destination", drop column if exists "weight";`);
+  }
+
+}
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019090000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table if not exists "shiprocket_shipment" ("id" text not null, "medusa_fulfillment_id" text not null, "medusa_order_id" text null, "sr_order_id" text null, "shipment_id" text null, "awb" text null, "courier_company_id" integer null, "stage" text check ("stage" in ('order_created', 'awb_pending', 'awb_assigned', 'documents_ready', 'failed')) not null, "attempts" integer not null default 0, "last_error" text null, "next_attempt_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "shiprocket_shipment_pkey" primary key ("id"));`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_shiprocket_shipment_fulfillment_id" ON "shiprocket_shipment" (medusa_fulfillment_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_shiprocket_shipment_deleted_at" ON "shiprocket_shipment" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "shiprocket_shipment" cascade;`);
+  }
+
+}
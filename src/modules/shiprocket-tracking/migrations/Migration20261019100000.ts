@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_shipment" add column if not exists "manifest_url" text null, add column if not exists "manifested_at" timestamptz null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_shipment" drop column if exists "manifest_url", drop column if exists "manifested_at";`);
+  }
+
+}
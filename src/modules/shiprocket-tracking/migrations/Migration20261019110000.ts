@@ -0,0 +1,22 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019110000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_shipment" drop constraint if exists "shiprocket_shipment_stage_check";`);
+    this.addSql(`alter table if exists "shiprocket_shipment" add constraint "shiprocket_shipment_stage_check" check ("stage" in ('order_created', 'awb_pending', 'awb_assigned', 'documents_ready', 'failed', 'on_hold'));`);
+
+    this.addSql(`create table if not exists "shiprocket_exchange" ("id" text not null, "exchange_id" text not null, "medusa_order_id" text not null, "return_id" text null, "return_fulfillment_id" text null, "return_awb" text null, "reverse_status" text check ("reverse_status" in ('pending', 'picked_up', 'delivered', 'qc_failed', 'canceled')) not null default 'pending', "forward_fulfillment_ids" jsonb null, "hold" text check ("hold" in ('none', 'picked_up', 'qc_passed')) not null default 'none', "released_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "shiprocket_exchange_pkey" primary key ("id"));`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_shiprocket_exchange_exchange_id" ON "shiprocket_exchange" (exchange_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_shiprocket_exchange_return_awb" ON "shiprocket_exchange" (return_awb) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_shiprocket_exchange_deleted_at" ON "shiprocket_exchange" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "shiprocket_exchange" cascade;`);
+
+    this.addSql(`alter table if exists "shiprocket_shipment" drop constraint if exists "shiprocket_shipment_stage_check";`);
+    this.addSql(`alter table if exists "shiprocket_shipment" add constraint "shiprocket_shipment_stage_check" check ("stage" in ('order_created', 'awb_pending', 'awb_assigned', 'documents_ready', 'failed'));`);
+  }
+
+}
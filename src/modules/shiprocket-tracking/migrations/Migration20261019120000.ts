@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019120000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" add column if not exists "ndr_status" text check ("ndr_status" in ('open', 'reattempt_requested', 'rto_requested', 'closed')) null, add column if not exists "ndr_attempts" integer not null default 0, add column if not exists "ndr_reason" text null, add column if not exists "ndr_last_attempt_at" timestamptz null, add column if not exists "ndr_actions" jsonb null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" drop column if exists "ndr_status", drop column if exists "ndr_attempts", drop column if exists "ndr_reason", drop column if exists "ndr_last_attempt_at", drop column if exists "ndr_actions";`);
+  }
+
+}
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019130000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" add column if not exists "normalized_status" text check ("normalized_status" in ('created', 'pickup', 'in_transit', 'out_for_delivery', 'delivered', 'ndr', 'rto', 'cancelled', 'lost')) null;`);
+
+    this.addSql(`update "shiprocket_tracking" set "normalized_status" = case when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (1, 2, 5, 11, 26, 43, 52, 59, 60, 61, 62, 63, 67, 72) then 'created' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (3, 4, 13, 15, 19, 20, 27, 47) then 'pickup' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (6, 18, 22, 38, 39, 42, 48, 49, 50, 51, 54, 55, 56, 57, 68, 71) then 'in_transit' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (17) then 'out_for_delivery' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (7, 23) then 'delivered' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (21, 77) then 'ndr' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (9, 10, 14, 40, 41, 46, 75, 78) then 'rto' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (8, 16, 45) then 'cancelled' when coalesce(nullif("shipment_status_id", 0), "current_status_id") in (12, 24, 25, 44, 76) then 'lost' else null end where "normalized_status" is null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table if exists "shiprocket_tracking" drop column if exists "normalized_status";`);
+  }
+
+}
@@ -0,0 +1,25 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ShiprocketExchange links the two legs of a Medusa order exchange: the reverse pickup of the
+ * returned item and the forward shipment of the replacement, which can be held until the
+ * reverse leg is picked up or passes QC.
+ */
+export const ShiprocketExchange = model.define("shiprocket_exchange", {
+    id: model.id().primaryKey(),
+
+    // Link to Medusa
+    exchange_id: model.text().unique("IDX_shiprocket_exchange_exchange_id"),
+    medusa_order_id: model.text(),
+    return_id: model.text().nullable(),
+
+    // Reverse leg
+    return_fulfillment_id: model.text().nullable(),
+    return_awb: model.text().index("IDX_shiprocket_exchange_return_awb").nullable(),
+    reverse_status: model.enum(["pending", "picked_up", "delivered", "qc_failed", "canceled"]).default("pending"),
+
+    // Forward leg(s) and when they ship
+    forward_fulfillment_ids: model.json().nullable(),
+    hold: model.enum(["none", "picked_up", "qc_passed"]).default("none"),
+    released_at: model.dateTime().nullable(),
+})
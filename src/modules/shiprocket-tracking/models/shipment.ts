@@ -0,0 +1,32 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ShiprocketShipment records how far shipment creation got for a Medusa fulfillment.
+ * Keyed by fulfillment id; the retry job resumes from the last completed stage.
+ */
+export const ShiprocketShipment = model.define("shiprocket_shipment", {
+    id: model.id().primaryKey(),
+
+    // Link to Medusa
+    medusa_fulfillment_id: model.text().unique("IDX_shiprocket_shipment_fulfillment_id"),
+    medusa_order_id: model.text().nullable(),
+
+    // Shiprocket identifiers
+    sr_order_id: model.text().nullable(),
+    shipment_id: model.text().nullable(),
+    awb: model.text().nullable(),
+    courier_company_id: model.number().nullable(),
+
+    // Progress: order_created -> awb_pending -> awb_assigned -> documents_ready, or failed;
+    // on_hold until an exchange replacement is released
+    stage: model.enum(["order_created", "awb_pending", "awb_assigned", "documents_ready", "failed", "on_hold"]),
+
+    // Retry bookkeeping for transient failures (empty wallet, Shiprocket outage)
+    attempts: model.number().default(0),
+    last_error: model.text().nullable(),
+    next_attempt_at: model.dateTime().nullable(),
+
+    // End-of-day manifest the shipment was handed over on
+    manifest_url: model.text().nullable(),
+    manifested_at: model.dateTime().nullable(),
+})
@@ -24,6 +24,8 @@ export const ShiprocketTracking = model.define("shiprocket_tracking", {
     current_status_id: model.number().nullable(),
     shipment_status: model.text().nullable(),
     shipment_status_id: model.number().nullable(),
+    // Lifecycle state of the status, see statuses.ts
+    normalized_status: model.enum(["created", "pickup", "in_transit", "out_for_delivery", "delivered", "ndr", "rto", "cancelled", "lost"]).nullable(),
 
     // Timestamps from Shiprocket
     current_timestamp: model.dateTime().nullable(),
@@ -40,6 +42,13 @@ export const ShiprocketTracking = model.define("shiprocket_tracking", {
     is_return: model.boolean().nullable(),
     channel_id: model.bigNumber().nullable(),
 
+    // Failed delivery attempts (NDR) and the actions taken on them
+    ndr_status: model.enum(["open", "reattempt_requested", "rto_requested", "closed"]).nullable(),
+    ndr_attempts: model.number().default(0),
+    ndr_reason: model.text().nullable(),
+    ndr_last_attempt_at: model.dateTime().nullable(),
+    ndr_actions: model.json().nullable(),
+
     // Shipment details
     origin: model.text().nullable(),
     destination: model.text().nullable(),
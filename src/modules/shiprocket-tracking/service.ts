@@ -1,16 +1,24 @@
 import { MedusaService } from "@medusajs/framework/utils"
 import { ShiprocketTracking } from "./models/tracking"
+import { ShiprocketShipment } from "./models/shipment"
+import { ShiprocketExchange } from "./models/exchange"
+import { ExchangeHold, ExchangeReverseStatus, NdrStatus, ShipmentStage } from "./types"
+import { normalizeStatus } from "./statuses"
 
 /**
  * Service for managing Shiprocket tracking data.
- * Provides CRUD operations for webhook data storage and retrieval.
+ * Provides CRUD operations for webhook data storage and retrieval,
+ * the creation progress of each shipment, and the legs of order exchanges.
  */
 class ShiprocketTrackingModuleService extends MedusaService({
     ShiprocketTracking,
+    ShiprocketShipment,
+    ShiprocketExchange,
 }) {
     /**
      * Upsert tracking record by AWB number.
      * Creates new record if not exists, updates if exists.
+     * The normalized status is derived from the raw Shiprocket status.
      */
     async upsertByAwb(data: {
         awb: string
@@ -34,6 +42,10 @@ class ShiprocketTrackingModuleService extends MedusaService({
         channel_id?: number
         raw_payload?: any
     }) {
+        // Shipment status is the overall state, current status may be the latest scan
+        const normalizedStatus = normalizeStatus(data.shipment_status_id, data.shipment_status) ||
+            normalizeStatus(data.current_status_id, data.current_status)
+
         // Try to find existing record by AWB
         const [existing] = await this.listShiprocketTrackings({
             awb: data.awb,
@@ -45,10 +57,15 @@ class ShiprocketTrackingModuleService extends MedusaService({
             // Update existing record - only mutable fields
             const updateData: any = {
                 id: existing.id,
+                // Links are filled in once known, e.g. when the shipment record appears
+                medusa_order_id: data.medusa_order_id,
+                medusa_fulfillment_id: data.medusa_fulfillment_id,
                 current_status: data.current_status,
                 current_status_id: data.current_status_id,
                 shipment_status: data.shipment_status,
                 shipment_status_id: data.shipment_status_id,
+                // An unrecognized status keeps the last known state
+                normalized_status: normalizedStatus ?? undefined,
                 current_timestamp: data.current_timestamp,
                 etd: data.etd,
                 awb_assigned_date: data.awb_assigned_date,
@@ -66,7 +83,10 @@ class ShiprocketTrackingModuleService extends MedusaService({
             return updated[0]
         } else {
             // Create new record
-            return await this.createShiprocketTrackings(data as any)
+            return await this.createShiprocketTrackings({
+                ...data,
+                normalized_status: normalizedStatus,
+            } as any)
         }
     }
 
@@ -93,6 +113,205 @@ class ShiprocketTrackingModuleService extends MedusaService({
         })
         return result || null
     }
+
+    /**
+     * Update the failed delivery attempts (NDR) of a shipment by AWB.
+     * An action is appended to the record's NDR action history.
+     */
+    async updateNdr(awb: string, data: {
+        status?: NdrStatus
+        attempts?: number
+        reason?: string | null
+        last_attempt_at?: Date | null
+        action?: Record<string, unknown>
+    }) {
+        const existing = await this.findByAwb(awb)
+        if (!existing) return null
+
+        const updateData: any = {
+            id: existing.id,
+            ndr_status: data.status,
+            ndr_attempts: data.attempts,
+            ndr_reason: data.reason,
+            ndr_last_attempt_at: data.last_attempt_at,
+            ...(data.action && {
+                ndr_actions: [...((existing.ndr_actions as unknown as any[]) || []), data.action],
+            }),
+        }
+        Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
+
+        const updated = await this.updateShiprocketTrackings([updateData])
+        return updated[0]
+    }
+
+    /**
+     * Start over the tracking of a shipment moved to a new AWB.
+     * Drops the history of the previous AWB and records the new one as assigned.
+     */
+    async resetTracking(data: {
+        previous_awb: string
+        awb: string
+        medusa_fulfillment_id: string
+        medusa_order_id?: string
+        courier_name?: string
+    }) {
+        const previous = await this.listShiprocketTrackings({
+            awb: data.previous_awb,
+        })
+
+        if (previous.length) {
+            await this.deleteShiprocketTrackings(previous.map(record => record.id))
+        }
+
+        return await this.upsertByAwb({
+            awb: data.awb,
+            order_id: previous[0]?.order_id ?? undefined,
+            sr_order_id: previous[0]?.sr_order_id != null ? Number(previous[0].sr_order_id) : undefined,
+            medusa_fulfillment_id: data.medusa_fulfillment_id,
+            medusa_order_id: data.medusa_order_id ?? previous[0]?.medusa_order_id ?? undefined,
+            courier_name: data.courier_name,
+            current_status: "AWB ASSIGNED",
+            current_status_id: 1,
+            awb_assigned_date: new Date(),
+            scans: [],
+        })
+    }
+
+    /**
+     * Upsert shipment progress by Medusa fulfillment ID.
+     */
+    async upsertShipment(data: {
+        medusa_fulfillment_id: string
+        medusa_order_id?: string
+        sr_order_id?: string
+        shipment_id?: string
+        awb?: string | null
+        courier_company_id?: number
+        stage: ShipmentStage
+        attempts?: number
+        last_error?: string | null
+        next_attempt_at?: Date | null
+        manifest_url?: string | null
+        manifested_at?: Date | null
+    }) {
+        const [existing] = await this.listShiprocketShipments({
+            medusa_fulfillment_id: data.medusa_fulfillment_id,
+        }, {
+            take: 1,
+        })
+
+        const fields: any = { ...data }
+        Object.keys(fields).forEach(key => fields[key] === undefined && delete fields[key]);
+
+        if (existing) {
+            const updated = await this.updateShiprocketShipments([{ ...fields, id: existing.id }])
+            return updated[0]
+        }
+        return await this.createShiprocketShipments(fields)
+    }
+
+    /**
+     * Find shipment progress by Medusa fulfillment ID.
+     */
+    async findShipmentByFulfillmentId(fulfillmentId: string) {
+        const [result] = await this.listShiprocketShipments({
+            medusa_fulfillment_id: fulfillmentId,
+        }, {
+            take: 1,
+        })
+        return result || null
+    }
+
+    /**
+     * Find shipment progress by AWB.
+     */
+    async findShipmentByAwb(awb: string) {
+        const [result] = await this.listShiprocketShipments({
+            awb,
+        }, {
+            take: 1,
+        })
+        return result || null
+    }
+
+    /**
+     * List shipments with an unfinished stage whose next retry is due.
+     */
+    async listDueShipments(limit: number = 50) {
+        return await this.listShiprocketShipments({
+            stage: ["order_created", "awb_pending", "awb_assigned"],
+            $or: [
+                { next_attempt_at: null },
+                { next_attempt_at: { $lte: new Date() } },
+            ],
+        }, {
+            take: limit,
+            order: { created_at: "ASC" },
+        })
+    }
+
+    /**
+     * List shipments with a label that haven't been handed over on a manifest yet.
+     */
+    async listUnmanifestedShipments(limit: number = 500) {
+        return await this.listShiprocketShipments({
+            stage: "documents_ready",
+            manifest_url: null,
+        }, {
+            take: limit,
+            order: { created_at: "ASC" },
+        })
+    }
+
+    /**
+     * Upsert the legs of an order exchange by Medusa exchange ID.
+     */
+    async upsertExchange(data: {
+        exchange_id: string
+        medusa_order_id?: string
+        return_id?: string | null
+        return_fulfillment_id?: string | null
+        return_awb?: string | null
+        reverse_status?: ExchangeReverseStatus
+        forward_fulfillment_ids?: string[]
+        hold?: ExchangeHold
+        released_at?: Date | null
+    }) {
+        const existing = await this.findExchangeByExchangeId(data.exchange_id)
+
+        const fields: any = { ...data }
+        Object.keys(fields).forEach(key => fields[key] === undefined && delete fields[key]);
+
+        if (existing) {
+            const updated = await this.updateShiprocketExchanges([{ ...fields, id: existing.id }])
+            return updated[0]
+        }
+        return await this.createShiprocketExchanges(fields)
+    }
+
+    /**
+     * Find the legs of an order exchange by Medusa exchange ID.
+     */
+    async findExchangeByExchangeId(exchangeId: string) {
+        const [result] = await this.listShiprocketExchanges({
+            exchange_id: exchangeId,
+        }, {
+            take: 1,
+        })
+        return result || null
+    }
+
+    /**
+     * Find the exchange whose reverse pickup has this AWB.
+     */
+    async findExchangeByReturnAwb(awb: string) {
+        const [result] = await this.listShiprocketExchanges({
+            return_awb: awb,
+        }, {
+            take: 1,
+        })
+        return result || null
+    }
 }
 
 export default ShiprocketTrackingModuleService
@@ -0,0 +1,211 @@
+/**
+ * Catalog of Shiprocket shipment statuses.
+ * Tracking records keep Shiprocket's raw status and, next to it, one of a few normalized
+ * lifecycle states that the rest of the plugin reasons about.
+ */
+
+/**
+ * Lifecycle state of a shipment, stored on its tracking record `normalized_status`
+ * - created: booked with Shiprocket, waiting for pickup to be arranged
+ * - pickup: pickup arranged or in progress, not picked up yet
+ * - in_transit: picked up and on its way
+ * - out_for_delivery: with the delivery agent
+ * - delivered: delivered to the customer
+ * - ndr: a delivery attempt failed (non-delivery report)
+ * - rto: returning, or returned, to origin
+ * - cancelled: cancelled before it shipped
+ * - lost: lost, damaged or destroyed in transit
+ */
+export type NormalizedStatus =
+    | "created"
+    | "pickup"
+    | "in_transit"
+    | "out_for_delivery"
+    | "delivered"
+    | "ndr"
+    | "rto"
+    | "cancelled"
+    | "lost"
+
+export const NORMALIZED_STATUSES: NormalizedStatus[] = [
+    "created",
+    "pickup",
+    "in_transit",
+    "out_for_delivery",
+    "delivered",
+    "ndr",
+    "rto",
+    "cancelled",
+    "lost",
+]
+
+/**
+ * States a shipment is in once the courier has picked it up
+ */
+export const PICKED_UP_STATUSES: NormalizedStatus[] = [
+    "in_transit",
+    "out_for_delivery",
+    "delivered",
+    "ndr",
+    "rto",
+    "lost",
+]
+
+export type ShiprocketStatus = {
+    id: number
+    label: string
+    normalized: NormalizedStatus
+    /** Other spellings Shiprocket and its couriers use for the status */
+    aliases?: string[]
+}
+
+/**
+ * Every Shiprocket shipment status id, as sent in `current_status_id`, `shipment_status_id`
+ * and the scans' `sr-status`
+ */
+export const SHIPROCKET_STATUSES: ShiprocketStatus[] = [
+    { id: 1, label: "AWB Assigned", normalized: "created" },
+    { id: 2, label: "Label Generated", normalized: "created" },
+    { id: 3, label: "Pickup Scheduled", normalized: "pickup", aliases: ["Pickup Generated"] },
+    { id: 4, label: "Pickup Queued", normalized: "pickup" },
+    { id: 5, label: "Manifest Generated", normalized: "created" },
+    { id: 6, label: "Shipped", normalized: "in_transit" },
+    { id: 7, label: "Delivered", normalized: "delivered" },
+    { id: 8, label: "Cancelled", normalized: "cancelled", aliases: ["Canceled"] },
+    { id: 9, label: "RTO Initiated", normalized: "rto" },
+    { id: 10, label: "RTO Delivered", normalized: "rto" },
+    { id: 11, label: "Pending", normalized: "created" },
+    { id: 12, label: "Lost", normalized: "lost" },
+    { id: 13, label: "Pickup Error", normalized: "pickup" },
+    { id: 14, label: "RTO Acknowledged", normalized: "rto" },
+    { id: 15, label: "Pickup Rescheduled", normalized: "pickup" },
+    { id: 16, label: "Cancellation Requested", normalized: "cancelled" },
+    { id: 17, label: "Out For Delivery", normalized: "out_for_delivery" },
+    { id: 18, label: "In Transit", normalized: "in_transit" },
+    { id: 19, label: "Out For Pickup", normalized: "pickup" },
+    { id: 20, label: "Pickup Exception", normalized: "pickup" },
+    { id: 21, label: "Undelivered", normalized: "ndr" },
+    { id: 22, label: "Delayed", normalized: "in_transit" },
+    { id: 23, label: "Partial Delivered", normalized: "delivered" },
+    { id: 24, label: "Destroyed", normalized: "lost" },
+    { id: 25, label: "Damaged", normalized: "lost" },
+    { id: 26, label: "Fulfilled", normalized: "created" },
+    { id: 27, label: "Pickup Booked", normalized: "pickup" },
+    { id: 38, label: "Reached At Destination Hub", normalized: "in_transit" },
+    { id: 39, label: "Misrouted", normalized: "in_transit" },
+    { id: 40, label: "RTO NDR", normalized: "rto" },
+    { id: 41, label: "RTO OFD", normalized: "rto" },
+    { id: 42, label: "Picked Up", normalized: "in_transit", aliases: ["Pickup Picked Up"] },
+    { id: 43, label: "Self Fulfilled", normalized: "created" },
+    { id: 44, label: "Disposed Off", normalized: "lost", aliases: ["Dispose Off"] },
+    { id: 45, label: "Cancelled Before Dispatched", normalized: "cancelled" },
+    { id: 46, label: "RTO In Transit", normalized: "rto" },
+    { id: 47, label: "QC Failed", normalized: "pickup" },
+    { id: 48, label: "Reached Warehouse", normalized: "in_transit" },
+    { id: 49, label: "Custom Cleared", normalized: "in_transit" },
+    { id: 50, label: "In Flight", normalized: "in_transit" },
+    { id: 51, label: "Handover To Courier", normalized: "in_transit" },
+    { id: 52, label: "Shipment Booked", normalized: "created" },
+    { id: 54, label: "In Transit Overseas", normalized: "in_transit" },
+    { id: 55, label: "Connection Aligned", normalized: "in_transit" },
+    { id: 56, label: "Reached Overseas Warehouse", normalized: "in_transit" },
+    { id: 57, label: "Custom Cleared Overseas", normalized: "in_transit" },
+    { id: 59, label: "Box Packing", normalized: "created" },
+    { id: 60, label: "FC Allocated", normalized: "created" },
+    { id: 61, label: "Picklist Generated", normalized: "created" },
+    { id: 62, label: "Ready To Pack", normalized: "created" },
+    { id: 63, label: "Packed", normalized: "created" },
+    { id: 67, label: "FC Manifest Generated", normalized: "created" },
+    { id: 68, label: "Processed At Warehouse", normalized: "in_transit" },
+    { id: 71, label: "Handover Exception", normalized: "in_transit" },
+    { id: 72, label: "Packed Exception", normalized: "created" },
+    { id: 75, label: "RTO Lock", normalized: "rto" },
+    { id: 76, label: "Untraceable", normalized: "lost" },
+    { id: 77, label: "Issue Related To The Recipient", normalized: "ndr" },
+    { id: 78, label: "Reached Back At Seller City", normalized: "rto" },
+]
+
+// Courier labels outside the catalog, most specific first
+const LABEL_PATTERNS: [RegExp, NormalizedStatus][] = [
+    [/\bRTO\b|RETURN(ED)? TO ORIGIN/, "rto"],
+    [/UNDELIVERED|\bNDR\b|DELIVERY ATTEMPTED|FAILED DELIVERY/, "ndr"],
+    [/CANCEL/, "cancelled"],
+    [/LOST|DAMAGED|DESTROYED|DISPOSE/, "lost"],
+    [/OUT FOR DELIVERY|\bOFD\b/, "out_for_delivery"],
+    [/DELIVERED/, "delivered"],
+    [/PICKED UP|SHIPPED|IN TRANSIT|IN FLIGHT|\bHUB\b|DISPATCHED/, "in_transit"],
+    [/PICK ?UP/, "pickup"],
+    [/AWB|LABEL|MANIFEST|PACK|BOOKED|PENDING/, "created"],
+]
+
+const byId = new Map(SHIPROCKET_STATUSES.map((status) => [status.id, status]))
+
+// Labels compared without spacing, Shiprocket sends both "PICKUP SCHEDULED" and "PICKUPSCHEDULED"
+const compact = (label: string) => label.toUpperCase().replace(/[^A-Z0-9]/g, "")
+
+const byLabel = new Map(SHIPROCKET_STATUSES.flatMap((status) =>
+    [status.label, ...(status.aliases || [])].map((label) => [compact(label), status] as const)
+))
+
+/**
+ * Catalog entry of a status id, or of a status label when the id is missing or unknown
+ */
+export function findShiprocketStatus(
+    statusId?: number | string | null,
+    status?: string | null
+): ShiprocketStatus | undefined {
+    return byId.get(Number(statusId)) || (status ? byLabel.get(compact(status)) : undefined)
+}
+
+/**
+ * Lifecycle state of a Shiprocket status id or label, or null when it can't be told
+ */
+export function normalizeStatus(
+    statusId?: number | string | null,
+    status?: string | null
+): NormalizedStatus | null {
+    const known = findShiprocketStatus(statusId, status)
+    if (known) return known.normalized
+
+    const label = String(status || "").toUpperCase()
+    return LABEL_PATTERNS.find(([pattern]) => pattern.test(label))?.[1] || null
+}
+
+/**
+ * Whether a status id or label reports one of the given states. Within one update the id
+ * and label can disagree, e.g. the overall shipment status id next to the latest scan label.
+ */
+export function isStatusIn(
+    statusId: number | string | null | undefined,
+    status: string | null | undefined,
+    states: NormalizedStatus[]
+): boolean {
+    const byStatusId = normalizeStatus(statusId)
+    const byLabel = normalizeStatus(null, status)
+    return (!!byStatusId && states.includes(byStatusId)) || (!!byLabel && states.includes(byLabel))
+}
+
+/**
+ * Human readable label of a status: the catalog label when known, title-cased otherwise
+ */
+export function getStatusLabel(status?: number | string | null): string {
+    if (status === undefined || status === null || status === "") return ""
+
+    const known = findShiprocketStatus(/^\d+$/.test(String(status)) ? status : null, String(status))
+    if (known) return known.label
+
+    return String(status)
+        .replace(/[_-]/g, " ")
+        .trim()
+        .split(/\s+/)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join(" ")
+}
+
+/**
+ * Raw status text of a tracking field, which Shiprocket sometimes fills with a status id
+ */
+export function getStatusText(status?: number | string | null): string | null {
+    if (status === undefined || status === null || status === "") return null
+    return /^\d+$/.test(String(status)) ? (byId.get(Number(status))?.label ?? String(status)) : String(status)
+}
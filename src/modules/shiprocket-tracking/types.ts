@@ -30,3 +30,29 @@ export interface ShiprocketWebhookPayload {
     pod_status?: string
     pod?: string
 }
+
+/**
+ * Steps of creating a shipment, in order (see the provider's ShiprocketShipmentStage).
+ */
+export type ShipmentStage =
+    | "order_created"
+    | "awb_pending"
+    | "awb_assigned"
+    | "documents_ready"
+    | "failed"
+    | "on_hold"
+
+/**
+ * When the replacement of an exchange ships (see the provider's ExchangeHold).
+ */
+export type ExchangeHold = "none" | "picked_up" | "qc_passed"
+
+/**
+ * Progress of the reverse leg of an exchange
+ */
+export type ExchangeReverseStatus = "pending" | "picked_up" | "delivered" | "qc_failed" | "canceled"
+
+/**
+ * State of the failed delivery attempts of a shipment (see the provider's NdrStatus).
+ */
+export type NdrStatus = "open" | "reattempt_requested" | "rto_requested" | "closed"
@@ -0,0 +1,110 @@
+import { Modules } from "@medusajs/framework/utils"
+import ShipRocketFulfillmentProviderService from "../service"
+
+const logger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+}
+
+// Stock location mapped to its pickup location through metadata only
+const stockLocation = {
+    id: "sloc_mumbai",
+    name: "Mumbai Warehouse",
+    metadata: { shiprocket_pickup_location: "Mumbai-WH" },
+}
+
+function createService() {
+    const stockLocationService = {
+        retrieveStockLocation: jest.fn().mockResolvedValue(stockLocation),
+    }
+    const service = new ShipRocketFulfillmentProviderService(
+        { logger: logger as any, [Modules.STOCK_LOCATION]: stockLocationService as any },
+        { email: "ops@example.com", password: "secret", pickup_location: "Primary" }
+    )
+    return { service, client: (service as any).client, stockLocationService }
+}
+
+describe("ShipRocketFulfillmentProviderService pickup location", () => {
+    beforeEach(() => {
+        jest.clearAllMocks()
+    })
+
+    it("quotes from the pickup location mapped in the stock location metadata", async () => {
+        const { service, client, stockLocationService } = createService()
+        const getPickupPincode = jest.spyOn(client, "getPickupPincode").mockResolvedValue("400001")
+        jest.spyOn(client, "getAvailableCouriers").mockResolvedValue([
+            { courier_company_id: 10, courier_name: "Delhivery", rate: 90, estimated_delivery_days: "3" },
+        ])
+
+        const data = await service.validateFulfillmentData(
+            { id: "shiprocket-standard", tier: "standard" },
+            {},
+            {
+                // Checkout passes the location without its metadata
+                from_location: { id: stockLocation.id, name: stockLocation.name },
+                shipping_address: { postal_code: "110001", country_code: "in" },
+                items: [],
+            }
+        )
+
+        expect(stockLocationService.retrieveStockLocation).toHaveBeenCalledWith(
+            stockLocation.id,
+            expect.anything()
+        )
+        expect(getPickupPincode).toHaveBeenCalledWith("Mumbai-WH")
+        expect(data).toMatchObject({ pickup_location: "Mumbai-WH", pickup_location_id: stockLocation.id })
+    })
+
+    it("creates the shipment at the pickup location mapped in the stock location metadata", async () => {
+        const { service, client } = createService()
+        const create = jest.spyOn(client, "create").mockResolvedValue({
+            order_id: "1001",
+            shipment_id: "2001",
+            stage: "on_hold",
+        })
+
+        await service.createFulfillment(
+            {},
+            [{ line_item_id: "item_1", quantity: 1 }],
+            { id: "order_1" } as any,
+            { id: "ful_1", location_id: stockLocation.id }
+        )
+
+        expect(create).toHaveBeenCalledWith(
+            expect.objectContaining({ location_id: stockLocation.id }),
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ pickup_location: "Mumbai-WH" })
+        )
+    })
+
+    it("falls back to the default pickup location without the Stock Location module", async () => {
+        const service = new ShipRocketFulfillmentProviderService(
+            { logger: logger as any },
+            { email: "ops@example.com", password: "secret", pickup_location: "Primary" }
+        )
+        const client = (service as any).client
+        jest.spyOn(client, "getPickupLocations").mockResolvedValue([])
+        const create = jest.spyOn(client, "create").mockResolvedValue({
+            order_id: "1001",
+            shipment_id: "2001",
+            stage: "on_hold",
+        })
+
+        await service.createFulfillment(
+            {},
+            [{ line_item_id: "item_1", quantity: 1 }],
+            { id: "order_1" } as any,
+            { id: "ful_1", location_id: stockLocation.id }
+        )
+
+        expect(create).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ pickup_location: "Primary" })
+        )
+    })
+})
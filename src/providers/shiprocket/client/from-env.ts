@@ -0,0 +1,45 @@
+import ShiprocketClient from "./index"
+import type { ShiprocketClientOptions } from "./types"
+
+/**
+ * Client options of the Shiprocket fulfillment provider options, so every client is built
+ * the way the provider builds its own
+ */
+export function getClientOptions(options: Record<string, any>): ShiprocketClientOptions {
+    return {
+        email: options.email,
+        password: options.password,
+        pickup_location: options.pickup_location,
+        pickup_locations: options.pickup_locations,
+        max_package_weight: options.max_package_weight,
+        boxes: options.boxes,
+        cod_charges: options.cod_charges,
+        insurance_threshold: options.insurance_threshold,
+        iec_code: options.iec_code,
+        purpose_of_shipment: options.purpose_of_shipment,
+        timeout: options.timeout,
+    }
+}
+
+/**
+ * Create a ShiprocketClient from SHIPROCKET_* environment variables.
+ * Fallback for API routes, jobs and subscribers when the provider options can't be found.
+ * Callers should `dispose()` the client when done.
+ */
+export function createShiprocketClientFromEnv(
+    options: Partial<ShiprocketClientOptions> = {}
+): ShiprocketClient {
+    const email = process.env.SHIPROCKET_EMAIL
+    const password = process.env.SHIPROCKET_PASSWORD
+
+    if (!email || !password) {
+        throw new Error("Shiprocket credentials (SHIPROCKET_EMAIL, SHIPROCKET_PASSWORD) missing in environment")
+    }
+
+    return new ShiprocketClient({
+        ...options,
+        email,
+        password,
+        pickup_location: options.pickup_location || process.env.SHIPROCKET_PICKUP_LOCATION,
+    })
+}
@@ -112,3 +112,26 @@ export function handleError(error: unknown, context?: ErrorContext): never {
             )
     }
 }
+
+/**
+ * Shiprocket messages for failures that clear up on their own (wallet top-up, outages)
+ */
+const TRANSIENT_MESSAGE_PATTERN = /wallet|insufficient|balance|recharge|try again|temporarily|timed out|server error|unable to connect|rate limit/i
+
+/**
+ * Whether an error is worth retrying later: network errors, timeouts, rate limits,
+ * Shiprocket server errors and an empty wallet.
+ * Works on raw Axios errors and on MedusaErrors produced by `handleError`.
+ */
+export function isTransientError(error: unknown): boolean {
+    const axiosError = error as AxiosError<ShiprocketError>
+    const statusCode = axiosError?.response?.status || 0
+
+    if (statusCode === 429 || statusCode >= 500) return true
+    if (["ECONNABORTED", "ECONNRESET", "ETIMEDOUT", "ENOTFOUND", "ECONNREFUSED"].includes(axiosError?.code || "")) {
+        return true
+    }
+
+    const message = axiosError?.response?.data?.message || (error as Error)?.message || ""
+    return TRANSIENT_MESSAGE_PATTERN.test(message)
+}
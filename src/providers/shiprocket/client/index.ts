@@ -1,28 +1,68 @@
 import axios, { AxiosInstance } from "axios"
 import { MedusaError } from "@medusajs/utils"
 import { authenticate } from "./methods/authenticate"
-import { handleError } from "./handle-error"
+import { handleError, isTransientError } from "./handle-error"
 import { getShiprocketManager } from "./manager"
-import { validateAndSanitizePhone, validateAndSanitizePincode, requireField } from "../utils/validation"
+import {
+    validateAndSanitizePhone,
+    validateAndSanitizePincode,
+    validateAndSanitizeE164Phone,
+    validateAndSanitizePostcode,
+    isDomesticCountry,
+    requireField,
+} from "../utils/validation"
+import { getVariantDimensions, hasAllDimensions, packUnits, PackageUnit, ShipmentPackage, ShippingBox } from "../utils/packaging"
+import { resolveShipmentPayment } from "../utils/payment"
+import { buildShipmentInvoice, getItemOriginCountry } from "../utils/invoice"
+import { applyCourierRules, CourierRules, CourierTier, pickupNickname, selectCourier } from "../utils"
+import type { NdrAction } from "../utils/ndr"
 
 import type {
     ShiprocketClientOptions,
     ShiprocketCalculateRateRequest,
     ShiprocketCalculateRateResponse,
+    ShiprocketCourierCompany,
+    ShiprocketCourier,
     ShiprocketCreateOrderResponse,
     ShiprocketTrackingResponse,
     ShiprocketDeliveryEstimateRequest,
     ShiprocketDeliveryEstimateResponse,
     ShiprocketPickupLocation,
     ShiprocketPickupLocationsResponse,
+    ShiprocketStockLocationRef,
+    ShiprocketCreateOptions,
+    ShiprocketCreatePickupLocationRequest,
+    ShiprocketInternationalRateRequest,
+    ShiprocketPurposeOfShipment,
+    ShiprocketAwbAssignment,
+    ShiprocketExistingOrder,
+    ShiprocketPickup,
+    ShiprocketBulkLabel,
+    ShiprocketReturnOptions,
+    ShiprocketReturnResponse,
 } from "./types"
+import { PICKUP_LOCATION_METADATA_KEY } from "./types"
 
 const DEFAULT_TIMEOUT = 15000 // 15 seconds
+const MPS_CREATE_PATH = "/shipments/create/forward-shipment"
+const INTERNATIONAL_CREATE_PATH = "/international/orders/create/adhoc"
+const INTERNATIONAL_SERVICEABILITY_PATH = "/courier/international/serviceability"
+const PICKUP_LOCATIONS_CACHE_MS = 60 * 60 * 1000 // 1 hour
+const CREATE_RETRY_DELAYS_MS = [1000, 3000] // in-request retries for transient failures
+const DOCUMENT_DOWNLOAD_TIMEOUT = 60000 // bulk label PDFs can be large
 
 export default class ShiprocketClient {
     private email: string
     private password: string
     private pickup_location?: string
+    private max_package_weight?: number
+    private boxes?: ShippingBox[]
+    private cod_charges: number
+    private insurance_threshold?: number
+    private iec_code?: string
+    private purpose_of_shipment: ShiprocketPurposeOfShipment
+    private pickup_locations: Record<string, string>
+    private pickupLocationsCache: { locations: ShiprocketPickupLocation[]; expiresAt: number } | null = null
     private axios: AxiosInstance
     private token: string | null = null
     private isDisposed = false
@@ -38,6 +78,13 @@ export default class ShiprocketClient {
         this.email = options.email
         this.password = options.password
         this.pickup_location = options.pickup_location
+        this.max_package_weight = options.max_package_weight
+        this.boxes = options.boxes
+        this.cod_charges = Number(options.cod_charges || 0)
+        this.insurance_threshold = options.insurance_threshold
+        this.iec_code = options.iec_code
+        this.purpose_of_shipment = options.purpose_of_shipment || "Sale"
+        this.pickup_locations = options.pickup_locations || {}
         // We do not instantiate a new `axios` here. We will use the shared one from `manager.ts`
         // We keep this structure compatible with existing code but route requests through the manager.
     }
@@ -61,11 +108,21 @@ export default class ShiprocketClient {
      */
     async getPickupLocations(locationName?: string): Promise<ShiprocketPickupLocation[]> {
         try {
-            const response = await (await this.getSharedAxios()).get<ShiprocketPickupLocationsResponse>(
-                "/settings/company/pickup"
-            )
+            let locations: ShiprocketPickupLocation[]
 
-            const locations = response.data.data.shipping_address || []
+            if (this.pickupLocationsCache && Date.now() < this.pickupLocationsCache.expiresAt) {
+                locations = this.pickupLocationsCache.locations
+            } else {
+                const response = await (await this.getSharedAxios()).get<ShiprocketPickupLocationsResponse>(
+                    "/settings/company/pickup"
+                )
+
+                locations = response.data.data.shipping_address || []
+                this.pickupLocationsCache = {
+                    locations,
+                    expiresAt: Date.now() + PICKUP_LOCATIONS_CACHE_MS,
+                }
+            }
 
             // Filter by location name if provided
             if (locationName) {
@@ -81,6 +138,34 @@ export default class ShiprocketClient {
         }
     }
 
+    /**
+     * Create a pickup location in Shiprocket
+     */
+    async createPickupLocation(data: ShiprocketCreatePickupLocationRequest): Promise<ShiprocketPickupLocation> {
+        try {
+            const response = await (await this.getSharedAxios()).post("/settings/company/addpickup", data)
+
+            // New location must show up in the next lookup
+            this.pickupLocationsCache = null
+
+            const address = response.data?.address || {}
+            return {
+                ...address,
+                id: address.id ?? response.data?.pickup_id,
+                pickup_location: address.pickup_code || data.pickup_location,
+            }
+        } catch (error: any) {
+            handleError(error, { operation: "createPickupLocation" })
+        }
+    }
+
+    /**
+     * Drop cached pickup locations so the next lookup hits Shiprocket
+     */
+    clearPickupLocationsCache(): void {
+        this.pickupLocationsCache = null
+    }
+
     /**
      * Get pincode for a pickup location by name
      */
@@ -90,13 +175,51 @@ export default class ShiprocketClient {
     }
 
     /**
-     * Calculate shipping rate for a route
+     * Resolve the Shiprocket pickup location nickname for a Medusa stock location.
+     *
+     * Resolution order:
+     * 1. `pickup_locations` mapping from provider options (stock location id -> nickname)
+     * 2. `shiprocket_pickup_location` in the stock location metadata
+     * 3. A Shiprocket pickup location whose nickname matches the stock location name
+     * 4. The default `pickup_location` option / SHIPROCKET_PICKUP_LOCATION, then "Primary"
      */
-    async calculate(data: ShiprocketCalculateRateRequest): Promise<number> {
+    async resolvePickupLocation(location?: ShiprocketStockLocationRef | null): Promise<string> {
+        const fallback = this.pickup_location || process.env.SHIPROCKET_PICKUP_LOCATION || "Primary"
+        if (!location) return fallback
+
+        if (location.id && this.pickup_locations[location.id]) {
+            return this.pickup_locations[location.id]
+        }
+
+        const fromMetadata = location.metadata?.[PICKUP_LOCATION_METADATA_KEY]
+        if (typeof fromMetadata === "string" && fromMetadata) {
+            return fromMetadata
+        }
+
+        if (location.name) {
+            try {
+                const candidates = [location.name, pickupNickname(location.name)].map((n) => n.toLowerCase())
+                const match = (await this.getPickupLocations()).find((loc) =>
+                    candidates.includes(loc.pickup_location.toLowerCase())
+                )
+                if (match) return match.pickup_location
+            } catch {
+                // Fall back to the default pickup location if Shiprocket can't be reached
+            }
+        }
+
+        return fallback
+    }
+
+    /**
+     * Get all couriers serviceable on a route (filtered by allowed courier IDs if specified)
+     */
+    async getAvailableCouriers(data: ShiprocketCalculateRateRequest): Promise<ShiprocketCourierCompany[]> {
         try {
+            const { allowed_courier_ids, blocked_courier_ids, ...params } = data
             const response = await (await this.getSharedAxios()).get<ShiprocketCalculateRateResponse>(
                 "/courier/serviceability/",
-                { params: data }
+                { params }
             )
 
             const availableCouriers = response.data.data.available_courier_companies
@@ -107,10 +230,8 @@ export default class ShiprocketClient {
                 )
             }
 
-            // Filter by allowed courier IDs if specified
-            const filtered = data.allowed_courier_ids?.length
-                ? availableCouriers.filter((c) => data.allowed_courier_ids!.includes(c.id))
-                : availableCouriers
+            // Filter by the shipping option's allowed/blocked courier IDs if specified
+            const filtered = applyCourierRules(availableCouriers, { allowed_courier_ids, blocked_courier_ids })
 
             if (!filtered?.length) {
                 throw new MedusaError(
@@ -119,18 +240,78 @@ export default class ShiprocketClient {
                 )
             }
 
-            // Return cheapest rate
-            const cheapest = filtered.reduce((min, curr) =>
-                Number(curr.rate) < Number(min.rate) ? curr : min
+            return filtered
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "getAvailableCouriers" })
+        }
+    }
+
+    /**
+     * Get all couriers serviceable from a pickup pincode to a country outside India
+     * (filtered by allowed/blocked courier IDs if specified)
+     */
+    async getInternationalCouriers(data: ShiprocketInternationalRateRequest): Promise<ShiprocketCourierCompany[]> {
+        try {
+            const { allowed_courier_ids, blocked_courier_ids, ...params } = data
+            const response = await (await this.getSharedAxios()).get(
+                INTERNATIONAL_SERVICEABILITY_PATH,
+                { params: { ...params, delivery_country: params.delivery_country.toUpperCase(), cod: 0 } }
             )
 
-            return Math.ceil(Number(cheapest?.rate) || 0)
+            const availableCouriers: ShiprocketCourierCompany[] =
+                response.data?.data?.available_courier_companies || response.data?.available_courier_companies || []
+            if (!availableCouriers.length) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_FOUND,
+                    `No international couriers available from ${data.pickup_postcode} to ${data.delivery_country.toUpperCase()}`
+                )
+            }
+
+            const filtered = applyCourierRules(availableCouriers, { allowed_courier_ids, blocked_courier_ids })
+            if (!filtered.length) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_FOUND,
+                    "No allowed couriers available for this destination"
+                )
+            }
+
+            return filtered
         } catch (error: any) {
             if (error instanceof MedusaError) throw error
-            handleError(error, { operation: "calculate" })
+            handleError(error, { operation: "getInternationalCouriers" })
+        }
+    }
+
+    /**
+     * List all couriers enabled on the Shiprocket account (to build allow/deny lists)
+     */
+    async listCouriers(): Promise<ShiprocketCourier[]> {
+        try {
+            const response = await (await this.getSharedAxios()).get("/courier/courierListWithCounts")
+            const couriers = response.data?.courier_data || response.data?.data || []
+            return couriers.map((c: any) => ({
+                ...c,
+                id: Number(c.id ?? c.courier_company_id),
+                name: c.name ?? c.courier_name,
+            }))
+        } catch (error: any) {
+            handleError(error, { operation: "listCouriers" })
         }
     }
 
+    /**
+     * Calculate shipping rate for a route
+     */
+    async calculate(data: ShiprocketCalculateRateRequest): Promise<number> {
+        const couriers = await this.getAvailableCouriers(data)
+
+        // Return cheapest rate
+        const cheapest = selectCourier(couriers)
+
+        return Math.ceil(Number(cheapest?.rate) || 0)
+    }
+
     /**
      * Get delivery estimate for a route - returns raw Shiprocket API response
      */
@@ -167,7 +348,8 @@ export default class ShiprocketClient {
     async create(
         fulfillment: any,
         items: any[],
-        order: any
+        order: any,
+        options: ShiprocketCreateOptions = {}
     ): Promise<ShiprocketCreateOrderResponse> {
         // Map order items by ID for quick lookup
         const orderItemMap = new Map()
@@ -177,18 +359,14 @@ export default class ShiprocketClient {
             })
         }
 
-        let totalWeight = 0
-        let totalLength = 0
-        let totalBreadth = 0
-        let totalHeight = 0
-
         try {
             // strict DD-MM-YYYY HH:mm for shiprocket
             const d = new Date(order.created_at)
             const pad = (n: number) => n.toString().padStart(2, "0")
             const orderDate = `${pad(d.getDate())}-${pad(d.getMonth() + 1)}-${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}`
 
-            // Calculate totals and dimensions
+            // Expand fulfillment items into physical units
+            const units: PackageUnit[] = []
             for (const item of items) {
                 const orderItem = orderItemMap.get(item.line_item_id)
                 if (!orderItem) {
@@ -206,19 +384,11 @@ export default class ShiprocketClient {
                     )
                 }
 
-                const product = (variant as any).product
-
                 // Check Variant first (preferred), then Product as fallback
-                // Weight: Medusa uses grams. Shiprocket needs kg.
-                const weightGrams = Number(variant.weight || product?.weight || 0)
-                const weight = weightGrams / 1000
-
-                const length = Number(variant.length || product?.length || 0)
-                const breadth = Number(variant.width || product?.width || 0)
-                const height = Number(variant.height || product?.height || 0)
+                const { weight, length, breadth, height } = getVariantDimensions(variant)
 
                 // Strict Validation: Shiprocket fines for incorrect dimensions
-                if (!weight || !length || !breadth || !height) {
+                if (!hasAllDimensions({ weight, length, breadth, height })) {
                     throw new MedusaError(
                         MedusaError.Types.INVALID_DATA,
                         `Missing dimensions/weight for "${item.title}". Please set them on the Variant.`
@@ -226,31 +396,92 @@ export default class ShiprocketClient {
                 }
 
                 const quantity = Number(item.quantity || item.raw_quantity?.value || 1)
-                totalWeight += weight * quantity
-                totalLength = Math.max(totalLength, length)
-                totalBreadth = Math.max(totalBreadth, breadth)
-                totalHeight += height * quantity
+                for (let i = 0; i < quantity; i++) {
+                    units.push({
+                        line_item_id: item.line_item_id,
+                        title: item.title,
+                        weight,
+                        length,
+                        breadth,
+                        height,
+                    })
+                }
             }
 
+            // Split into packages; more than one package becomes a multi-piece shipment (MPS)
+            const packages = packUnits(units, {
+                maxWeight: this.max_package_weight,
+                boxes: this.boxes,
+            })
+            if (!packages.length) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    "Fulfillment has no items to ship. Add at least one item with a quantity."
+                )
+            }
+            const totalWeight = packages.reduce((sum, pkg) => sum + pkg.weight, 0)
+            const primaryPackage = packages[0]
+
             const shipping = order.shipping_address || fulfillment?.delivery_address || {}
             const billing = order.billing_address || order.customer || {}
 
+            // Non-India destinations go through the cross-border API with customs data
+            const international = !isDomesticCountry(shipping.country_code)
+            const country = (shipping.country_code || "IN").toUpperCase()
+            const sanitizePhone = (phone: string, field: string) => international
+                ? validateAndSanitizeE164Phone(phone, country, field)
+                : validateAndSanitizePhone(phone, field)
+            const sanitizePostcode = (postcode: string, field: string) => international
+                ? validateAndSanitizePostcode(postcode, country, field)
+                : validateAndSanitizePincode(postcode, field)
+
+            // COD while a COD payment of the order is uncaptured, as checked when the fulfillment was created
+            const payment = resolveShipmentPayment(order, this.cod_charges, fulfillment)
+
+            // GST invoice lines: tax inclusive prices, tax rates, HSN, discounts and order-level charges
+            const invoice = buildShipmentInvoice(items, orderItemMap, order)
+
+            // Value of the goods in this fulfillment, declared to the courier
+            const declaredValue = Math.max(0, invoice.sub_total - invoice.total_discount)
+
+            // For COD the courier collects the invoice total, less anything already paid online
+            const codAmount = payment.payment_method === "COD"
+                ? Math.min(payment.outstanding_amount, invoice.total)
+                : 0
+            const prepaidAdjustment = payment.payment_method === "COD"
+                ? Math.round((invoice.total - codAmount) * 100) / 100
+                : 0
+
+            // Insure high-value shipments (Shiprocket Secure)
+            const insurance = this.insurance_threshold !== undefined && declaredValue >= this.insurance_threshold
+                ? { insured: true, insured_amount: declaredValue }
+                : undefined
+
+            if (international) {
+                this.assertInternationalShipment(payment.payment_method, packages.length, invoice.order_items)
+            }
+
+            // Ship from the Shiprocket pickup location mapped to the fulfillment's stock location
+            const pickupLocation = options.pickup_location ||
+                await this.resolvePickupLocation(fulfillment?.location_id ? { id: fulfillment.location_id } : null)
+
             // Build order payload
             const orderData = {
-                order_id: `${order.id}-${Math.floor(Date.now() / 1000)}`,
+                // Keyed by fulfillment id so a retry finds the order instead of creating a duplicate
+                order_id: fulfillment?.id || `${order.id}-${Math.floor(Date.now() / 1000)}`,
                 order_date: orderDate,
-                pickup_location: this.pickup_location || "Primary",
+                pickup_location: pickupLocation,
 
                 billing_customer_name: requireField(billing.first_name, "Billing First Name"),
                 billing_last_name: billing.last_name || "",
                 billing_address: requireField(shipping.address_1 || billing.address_1, "Billing Address"),
                 billing_address_2: shipping.address_2 || billing.address_2 || "",
                 billing_city: requireField(shipping.city || billing.city, "Billing City"),
-                billing_pincode: validateAndSanitizePincode(requireField(shipping.postal_code || billing.postal_code, "Billing Pincode"), "Billing Pincode"),
+                billing_pincode: sanitizePostcode(shipping.postal_code || billing.postal_code, "Billing Pincode"),
                 billing_state: requireField(shipping.province || billing.province, "Billing State"),
                 billing_country: requireField(shipping.country_code || billing.country_code || "IN", "Billing Country"),
                 billing_email: requireField(billing.email || order.email, "Billing Email"),
-                billing_phone: validateAndSanitizePhone(requireField(shipping.phone || billing.phone, "Billing Phone"), "Billing Phone"),
+                billing_phone: sanitizePhone(requireField(shipping.phone || billing.phone, "Billing Phone"), "Billing Phone"),
 
                 shipping_is_billing: true,
                 shipping_customer_name: requireField(shipping.first_name, "Shipping First Name"),
@@ -258,110 +489,692 @@ export default class ShiprocketClient {
                 shipping_address: requireField(shipping.address_1, "Shipping Address"),
                 shipping_address_2: shipping.address_2 || "",
                 shipping_city: requireField(shipping.city, "Shipping City"),
-                shipping_pincode: validateAndSanitizePincode(requireField(shipping.postal_code, "Shipping Pincode"), "Shipping Pincode"),
+                shipping_pincode: sanitizePostcode(shipping.postal_code, "Shipping Pincode"),
                 shipping_country: requireField(shipping.country_code || "IN", "Shipping Country"),
                 shipping_state: requireField(shipping.province, "Shipping State"),
                 shipping_email: requireField(billing.email || order.email, "Shipping Email"),
-                shipping_phone: validateAndSanitizePhone(requireField(shipping.phone, "Shipping Phone"), "Shipping Phone"),
+                shipping_phone: sanitizePhone(requireField(shipping.phone, "Shipping Phone"), "Shipping Phone"),
 
-                order_items: items.map((item) => {
-                    const orderItem = orderItemMap.get(item.line_item_id)!
-                    const variant = orderItem.variant!
-                    const selling_price = Math.round(Number(orderItem.unit_price || orderItem.detail?.unit_price || 0))
+                order_items: international
+                    ? invoice.order_items.map((item, index) => ({
+                        ...item,
+                        origin_country: getItemOriginCountry(orderItemMap.get(items[index].line_item_id)),
+                    }))
+                    : invoice.order_items,
 
-                    return {
-                        name: item.title,
-                        sku: variant.sku || orderItem.variant_sku || item.sku || item.id,
-                        units: Number(item.quantity || item.raw_quantity?.value || 1),
-                        selling_price,
-                        discount: "",
-                        tax: "",
-                        hsn: Number(variant.hs_code || 0),
-                    }
+                // Customs data for cross-border shipments
+                ...(international && {
+                    currency: (order.currency_code || "INR").toUpperCase(),
+                    purpose_of_shipment: this.purpose_of_shipment,
+                    ...(this.iec_code && { iec_code: this.iec_code }),
                 }),
 
-                payment_method: "Prepaid",
-                sub_total: items.reduce((sum, item) => {
-                    const orderItem = orderItemMap.get(item.line_item_id)!
-                    const price = Number(orderItem.unit_price || orderItem.detail?.unit_price || 0)
-                    const qty = Number(item.quantity || item.raw_quantity?.value || 1)
-                    return sum + (price * qty)
-                }, 0),
-                length: totalLength,
-                breadth: totalBreadth,
-                height: totalHeight,
+                payment_method: payment.payment_method,
+                sub_total: invoice.sub_total,
+                shipping_charges: invoice.shipping_charges,
+                giftwrap_charges: invoice.giftwrap_charges,
+                total_discount: invoice.total_discount + prepaidAdjustment,
+                transaction_charges: payment.cod_charges,
+                ...(insurance && { is_insurance_opt: true }),
+                length: primaryPackage.length,
+                breadth: primaryPackage.breadth,
+                height: primaryPackage.height,
+                weight: primaryPackage.weight,
+            }
+
+            const route = {
+                pickup_postcode: await this.getPickupPincode(pickupLocation).catch(() => null) || undefined,
+                delivery_postcode: shipping.postal_code || shipping.zip,
                 weight: totalWeight,
+                cod: payment.payment_method === "COD" ? 1 : 0,
+                declared_value: declaredValue,
+            }
+            const rules = {
+                allowed_courier_ids: options.allowed_courier_ids,
+                blocked_courier_ids: options.blocked_courier_ids,
             }
 
-            // Create order
-            const orderCreated = await (await this.getSharedAxios())
-                .post<ShiprocketCreateOrderResponse>("/orders/create/adhoc", orderData)
-                .catch((err) => {
-                    const apiError = err?.response?.data?.errors
-                    if (apiError) {
-                        const firstError = Object.values(apiError)[0]
-                        const msg = Array.isArray(firstError) ? firstError[0] : firstError
-                        throw new MedusaError(MedusaError.Types.INVALID_DATA, `Shiprocket: ${msg}`)
-                    }
-                    throw err
-                })
+            // Courier locked in at checkout wins while it still serves the route, else the preferred
+            // courier (SHIPROCKET_DELIVERY_PREFERENCE env)
+            const quotedCourierId = options.courier_id ? Number(options.courier_id) : null
+            const courierId = quotedCourierId
+                ? international ? quotedCourierId : await this.confirmQuotedCourier(quotedCourierId, options.tier, route, rules)
+                : international ? null : await this.getPreferredCourierId(route, rules)
 
-            if (!orderCreated.data?.shipment_id) {
-                throw new MedusaError(
-                    MedusaError.Types.INVALID_DATA,
-                    "Shiprocket order created but no shipment ID returned"
+            const shipmentBase = {
+                pickup_location: pickupLocation,
+                payment_method: payment.payment_method,
+                cod_amount: payment.payment_method === "COD" ? codAmount + payment.cod_charges : 0,
+                declared_value: declaredValue,
+                insurance,
+                ...(international && { is_international: true }),
+                ...(quotedCourierId && courierId !== quotedCourierId && { quoted_courier_id: quotedCourierId }),
+            }
+            // One entry per package; multi-piece shipments carry each package's child AWB
+            const packageData = (awb: string, childAwbs: string[] = []) => packages.map((pkg, index) => {
+                const packageAwb = childAwbs[index] || awb
+                return {
+                    awb: packageAwb,
+                    tracking_url: `https://shiprocket.co/tracking/${packageAwb}`,
+                    length: pkg.length,
+                    breadth: pkg.breadth,
+                    height: pkg.height,
+                    weight: pkg.weight,
+                    items: pkg.items,
+                    box_id: pkg.box_id,
+                    box_name: pkg.box_name,
+                }
+            })
+            const mps = packages.length > 1 ? { is_mps: true } : {}
+
+            // Resume: an earlier attempt for this fulfillment may already have created the order,
+            // which is reused as is, never created again
+            const existing = fulfillment?.id ? await this.findOrderByChannelId(orderData.order_id) : null
+            if (existing?.awb) {
+                return {
+                    ...this.toCreateOrderResponse(existing, payment.payment_method),
+                    ...shipmentBase,
+                    ...mps,
+                    stage: "awb_assigned",
+                    awb: existing.awb,
+                    tracking_number: existing.awb,
+                    tracking_url: `https://shiprocket.co/tracking/${existing.awb}`,
+                    packages: packageData(existing.awb, existing.child_awbs),
+                }
+            }
+
+            // Multi-package shipments get their AWBs together with the order, so they can't be held
+            if (packages.length > 1) {
+                // An earlier attempt left the order without AWBs; a single AWB can't cover all
+                // the packages, so drop that order and book the shipment again
+                if (existing) {
+                    await this.cancel(existing.order_id)
+                }
+                return {
+                    ...await this.createMultiPackage(orderData, packages, courierId, shipmentBase.cod_amount, order.id),
+                    ...shipmentBase,
+                    stage: "awb_assigned",
+                }
+            }
+
+            // Create order, or pick up the one created by an earlier attempt
+            const orderCreated: ShiprocketCreateOrderResponse = existing
+                ? this.toCreateOrderResponse(existing, payment.payment_method)
+                : await this.withRetry(() =>
+                    this.createOrder(international ? INTERNATIONAL_CREATE_PATH : "/orders/create/adhoc", orderData)
                 )
+
+            // Held shipments (exchange replacements) get their AWB once released
+            if (options.hold_awb) {
+                return {
+                    ...orderCreated,
+                    ...shipmentBase,
+                    stage: "on_hold",
+                    ...(courierId && { courier_company_id: courierId }),
+                }
             }
 
-            // Try to get preferred courier based on SHIPROCKET_DELIVERY_PREFERENCE env
-            let courierId: number | null = null
+            // Assign AWB with optional courier_id
             try {
-                const manager = getShiprocketManager()
-                const pickupPincode = shipping.postal_code || shipping.zip
-                const deliveryPincode = billing.postal_code || billing.zip
-                if (pickupPincode && deliveryPincode) {
-                    courierId = await manager.getPreferredCourier({
-                        pickup_postcode: pickupPincode,
-                        delivery_postcode: deliveryPincode,
-                        weight: totalWeight,
-                        cod: order.payment_status === 'awaiting' ? 1 : 0,
-                    })
+                const assigned = await this.withRetry(() => this.assignAwb(orderCreated.shipment_id, courierId))
+
+                return {
+                    ...orderCreated,
+                    ...shipmentBase,
+                    stage: "awb_assigned",
+                    awb: assigned.awb,
+                    courier_company_id: assigned.courier_company_id,
+                    courier_name: assigned.courier_name || orderCreated.courier_name,
+                    tracking_number: assigned.awb,
+                    tracking_url: `https://shiprocket.co/tracking/${assigned.awb}`,
+                    ...mps,
+                    packages: packageData(assigned.awb, existing?.child_awbs),
+                }
+            } catch (error: any) {
+                if (!isTransientError(error)) {
+                    // Cancel order to avoid stuck state
+                    try { await this.cancel(orderCreated.order_id) } catch { /* ignore */ }
+                    throw error
+                }
+
+                // Keep the order; the AWB is assigned by the retry job once the wallet is topped up
+                // or Shiprocket recovers
+                return {
+                    ...orderCreated,
+                    ...shipmentBase,
+                    stage: "awb_pending",
+                    last_error: error.message,
+                    ...(courierId && { courier_company_id: courierId }),
                 }
-            } catch {
-                // Fallback to auto-assign if courier selection fails
             }
 
-            // Assign AWB with optional courier_id
-            const awbPayload: any = { shipment_id: orderCreated.data.shipment_id }
-            if (courierId) {
-                awbPayload.courier_id = courierId
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "create", orderId: order?.id })
+        }
+    }
+
+    /**
+     * Ask the courier to pick up shipments that have an AWB
+     * @param shipmentIds - Shiprocket shipment ids
+     * @param pickupDate - Requested date (YYYY-MM-DD), defaults to the next available slot
+     * @param reschedule - Request a new pickup for shipments whose pickup was missed
+     */
+    async schedulePickup(
+        shipmentIds: (string | number)[],
+        pickupDate?: string,
+        reschedule: boolean = false
+    ): Promise<ShiprocketPickup> {
+        const payload: Record<string, unknown> = {
+            shipment_id: shipmentIds.map(Number),
+        }
+        if (pickupDate) {
+            payload.pickup_date = [pickupDate]
+        }
+        if (reschedule) {
+            payload.status = "retry"
+        }
+
+        try {
+            const response = await (await this.getSharedAxios()).post("/courier/generate/pickup", payload)
+            const result = response.data?.response || response.data || {}
+
+            if (response.data?.pickup_status !== 1 && !result.pickup_token_number) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_ALLOWED,
+                    result.data || response.data?.message || "Shiprocket did not schedule the pickup"
+                )
+            }
+
+            return {
+                pickup_token_number: result.pickup_token_number ? String(result.pickup_token_number) : undefined,
+                pickup_scheduled_date: result.pickup_scheduled_date || undefined,
+                pickup_date: pickupDate,
+                status: typeof result.data === "string" ? result.data : result.status,
+                requested_at: new Date().toISOString(),
+                ...(reschedule && { rescheduled: true }),
             }
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "schedulePickup", shipmentId: shipmentIds.join(",") })
+        }
+    }
+
+    /**
+     * Run a Shiprocket call, retrying transient failures a couple of times before giving up
+     */
+    private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await fn()
+            } catch (error) {
+                if (attempt >= CREATE_RETRY_DELAYS_MS.length || !isTransientError(error)) throw error
+                await new Promise((resolve) => setTimeout(resolve, CREATE_RETRY_DELAYS_MS[attempt]))
+            }
+        }
+    }
+
+    /**
+     * Create an adhoc (or international) order in Shiprocket
+     */
+    private async createOrder(path: string, orderData: Record<string, any>): Promise<ShiprocketCreateOrderResponse> {
+        const orderCreated = await (await this.getSharedAxios())
+            .post<ShiprocketCreateOrderResponse>(path, orderData)
+            .catch(async (err) => {
+                const apiError = err?.response?.data?.errors
+                if (apiError) {
+                    const firstError = Object.values(apiError)[0]
+                    const msg = Array.isArray(firstError) ? firstError[0] : firstError
+                    throw new MedusaError(MedusaError.Types.INVALID_DATA, `Shiprocket: ${msg}`)
+                }
+                // The request may have reached Shiprocket before timing out
+                const existing = await this.findOrderByChannelId(orderData.order_id)
+                if (existing) {
+                    return { data: this.toCreateOrderResponse(existing, orderData.payment_method) }
+                }
+                throw err
+            })
+
+        if (!orderCreated.data?.shipment_id) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                "Shiprocket order created but no shipment ID returned"
+            )
+        }
+
+        return orderCreated.data
+    }
+
+    /**
+     * Create-order response for an order created by an earlier attempt
+     */
+    private toCreateOrderResponse(existing: ShiprocketExistingOrder, paymentMethod: string): ShiprocketCreateOrderResponse {
+        return {
+            order_id: existing.order_id,
+            shipment_id: existing.shipment_id,
+            status: existing.status || "",
+            status_code: 0,
+            payment_method: paymentMethod,
+            shipping_charges: "",
+            transaction_charges: "",
+            giftwrap_charges: "",
+            ...(existing.courier_company_id && { courier_company_id: existing.courier_company_id }),
+            ...(existing.courier_name && { courier_name: existing.courier_name }),
+        }
+    }
+
+    /**
+     * Find a Shiprocket order by its channel order id (the Medusa fulfillment id)
+     * @returns The order with its first shipment, or null when none exists or the lookup fails
+     */
+    async findOrderByChannelId(channelOrderId: string): Promise<ShiprocketExistingOrder | null> {
+        try {
+            const response = await (await this.getSharedAxios()).get("/orders", {
+                params: { search: channelOrderId },
+            })
+            const orders = (response.data?.data || []) as any[]
+            // A cancelled order is not picked up again, the next attempt creates a new one
+            const match = orders.find((o) =>
+                String(o?.channel_order_id) === channelOrderId && !/CANCEL/i.test(String(o?.status || ""))
+            )
+            const shipment = match?.shipments?.[0]
+            if (!match || !shipment?.id) return null
+
+            const childAwbs = Array.isArray(shipment.child_awbs) ? shipment.child_awbs.map(String) : []
+            return {
+                order_id: String(match.id),
+                shipment_id: String(shipment.id),
+                awb: shipment.awb || undefined,
+                courier_company_id: shipment.courier_id ? Number(shipment.courier_id) : undefined,
+                courier_name: shipment.courier || undefined,
+                ...(childAwbs.length && { child_awbs: childAwbs }),
+                status: match.status,
+            }
+        } catch {
+            return null
+        }
+    }
+
+    /**
+     * Assign an AWB to a shipment, optionally with a specific courier
+     * @param isReturn - Assign a reverse pickup AWB to a return shipment
+     * @throws MedusaError when Shiprocket does not assign an AWB
+     */
+    async assignAwb(
+        shipmentId: string | number,
+        courierId?: number | null,
+        isReturn: boolean = false,
+        reassign: boolean = false
+    ): Promise<ShiprocketAwbAssignment> {
+        const awbPayload: any = { shipment_id: shipmentId }
+        if (courierId) {
+            awbPayload.courier_id = courierId
+        }
+        if (isReturn) {
+            awbPayload.is_return = 1
+        }
+        // A shipment whose previous AWB was cancelled is moved to the new courier
+        if (reassign) {
+            awbPayload.status = "reassign"
+        }
+
+        try {
             const awbCreated = await (await this.getSharedAxios()).post("/courier/assign/awb", awbPayload)
 
             if (awbCreated.data.awb_assign_status !== 1) {
-                // Cancel order to avoid stuck state
-                try { await this.cancel(orderCreated.data.order_id) } catch { /* ignore */ }
-
                 throw new MedusaError(
                     MedusaError.Types.NOT_ALLOWED,
-                    awbCreated.data.message || "AWB assignment failed - no courier available"
+                    awbCreated.data?.response?.data?.awb_assign_error ||
+                    awbCreated.data.message ||
+                    "AWB assignment failed - no courier available"
                 )
             }
 
             const responseData = awbCreated.data.response.data
-
             return {
-                ...orderCreated.data,
                 awb: responseData.awb_code,
                 courier_company_id: responseData.courier_company_id,
-                courier_name: responseData.courier_name || orderCreated.data.courier_name,
-                tracking_number: responseData.awb_code,
-                tracking_url: `https://shiprocket.co/tracking/${responseData.awb_code}`,
+                courier_name: responseData.courier_name,
             }
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "assignAwb", shipmentId: String(shipmentId) })
+        }
+    }
 
+    /**
+     * Cancel the AWB of a shipment, keeping the Shiprocket order so it can be assigned to another courier
+     */
+    async cancelAwb(awb: string): Promise<void> {
+        try {
+            await (await this.getSharedAxios()).post("/orders/cancel/shipment/awbs", { awbs: [awb] })
+        } catch (error: any) {
+            const messageStr = JSON.stringify(error?.response?.data || "").toLowerCase()
+            if (messageStr.includes("already cancelled") || messageStr.includes("already canceled")) {
+                return // Idempotent success
+            }
+            handleError(error, { operation: "cancelAwb" })
+        }
+    }
+
+    /**
+     * Route of an existing shipment for serviceability checks: its pickup pincode, delivery
+     * pincode (the current address, or `deliveryPostcode`), weight and payment
+     */
+    private async getShipmentRoute(fulfillment: any, deliveryPostcode?: string) {
+        const data = (fulfillment?.data || {}) as Record<string, any>
+        const packages = (data.packages || []) as { weight?: number }[]
+        const weight = packages.reduce((total, pkg) => total + (Number(pkg.weight) || 0), 0)
+
+        return {
+            pickup_postcode: await this.getPickupPincode(data.pickup_location).catch(() => null) || undefined,
+            delivery_postcode: deliveryPostcode ||
+                data.shipping_address?.postal_code ||
+                fulfillment?.delivery_address?.postal_code ||
+                undefined,
+            weight: weight || 0.5,
+            cod: data.payment_method === "COD" ? 1 : 0,
+            declared_value: data.declared_value,
+        }
+    }
+
+    /**
+     * Couriers that can deliver an existing shipment to a pincode, within the shipping option's courier rules
+     */
+    async getShipmentCouriers(
+        fulfillment: any,
+        deliveryPostcode: string,
+        rules: CourierRules = {}
+    ): Promise<ShiprocketCourierCompany[]> {
+        const route = await this.getShipmentRoute(fulfillment, deliveryPostcode)
+        if (!route.pickup_postcode) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, "Pickup pincode of the shipment is unknown")
+        }
+
+        return await this.getAvailableCouriers({
+            pickup_postcode: route.pickup_postcode,
+            delivery_postcode: String(validateAndSanitizePincode(deliveryPostcode, "Shipping Pincode")),
+            weight: route.weight,
+            cod: route.cod,
+            declared_value: route.declared_value,
+            ...rules,
+        })
+    }
+
+    /**
+     * Pick the courier to move a shipment to: the preferred courier on its route other than
+     * the current one, within the shipping option's courier rules
+     */
+    async findReassignmentCourier(fulfillment: any, rules: CourierRules = {}): Promise<number> {
+        const data = (fulfillment?.data || {}) as Record<string, any>
+        if (data.is_international) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                "Choose the courier to move an international shipment to"
+            )
+        }
+
+        const courierId = await this.getPreferredCourierId(await this.getShipmentRoute(fulfillment), {
+            ...rules,
+            blocked_courier_ids: [
+                ...(rules.blocked_courier_ids || []),
+                ...(data.courier_company_id ? [Number(data.courier_company_id)] : []),
+            ],
+        })
+
+        if (!courierId) {
+            throw new MedusaError(MedusaError.Types.NOT_FOUND, "No other courier available for this route")
+        }
+        return courierId
+    }
+
+    /**
+     * Update the delivery address and phone of a domestic order that hasn't been picked up yet
+     */
+    async updateShippingAddress(orderId: string | number, address: any): Promise<void> {
+        if (!isDomesticCountry(address?.country_code)) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                "Only addresses in India can be updated on a Shiprocket order"
+            )
+        }
+
+        const payload = {
+            order_id: orderId,
+            shipping_customer_name: [
+                requireField(address.first_name, "Shipping First Name"),
+                address.last_name,
+            ].filter(Boolean).join(" "),
+            shipping_phone: validateAndSanitizePhone(requireField(address.phone, "Shipping Phone"), "Shipping Phone"),
+            shipping_address: requireField(address.address_1, "Shipping Address"),
+            shipping_address_2: address.address_2 || "",
+            shipping_city: requireField(address.city, "Shipping City"),
+            shipping_state: requireField(address.province, "Shipping State"),
+            shipping_country: address.country_code || "IN",
+            shipping_pincode: validateAndSanitizePincode(address.postal_code, "Shipping Pincode"),
+        }
+
+        try {
+            await (await this.getSharedAxios()).post("/orders/address/update", payload)
+        } catch (error: any) {
+            handleError(error, { operation: "updateShippingAddress", orderId: String(orderId) })
+        }
+    }
+
+    /**
+     * Check that a shipment can go through the cross-border API: prepaid, a single package,
+     * an HS code on every item and an IEC for commercial exports.
+     */
+    private assertInternationalShipment(
+        paymentMethod: string,
+        packageCount: number,
+        orderItems: { name: string; hsn?: string }[]
+    ): void {
+        if (paymentMethod === "COD") {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                "Cash on Delivery is not available for international shipments"
+            )
+        }
+        if (packageCount > 1) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_ALLOWED,
+                "International shipments must fit in a single package. Split the order into several fulfillments."
+            )
+        }
+        const missingHsn = orderItems.filter((item) => !item.hsn).map((item) => item.name)
+        if (missingHsn.length) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `HS code is required for international shipments. Set it on the Variant or Product of: ${missingHsn.join(", ")}`
+            )
+        }
+        if (this.purpose_of_shipment === "Sale" && !this.iec_code) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                "Shiprocket 'iec_code' option is required for international commercial shipments"
+            )
+        }
+    }
+
+    /**
+     * Courier of a shipment quoted at checkout: the quoted courier while it still serves the route,
+     * else the courier the shipping option's tier picks now. Keeps the quoted courier when
+     * serviceability can't be checked, the AWB assignment then has the final say.
+     */
+    private async confirmQuotedCourier(
+        courierId: number,
+        tier: CourierTier | undefined,
+        data: {
+            pickup_postcode?: string
+            delivery_postcode?: string
+            weight: number
+            cod: number
+            declared_value?: number
+        },
+        rules: CourierRules = {}
+    ): Promise<number> {
+        if (!data.pickup_postcode || !data.delivery_postcode) return courierId
+
+        let couriers: ShiprocketCourierCompany[]
+        try {
+            couriers = await this.getAvailableCouriers({
+                pickup_postcode: data.pickup_postcode,
+                delivery_postcode: data.delivery_postcode,
+                weight: data.weight,
+                cod: data.cod,
+                declared_value: data.declared_value,
+                ...rules,
+            })
+        } catch {
+            return courierId
+        }
+
+        if (couriers.some((c) => Number(c.courier_company_id) === courierId)) return courierId
+        return Number(selectCourier(couriers, { tier }).courier_company_id)
+    }
+
+    /**
+     * Resolve the preferred courier for a route, or null to let Shiprocket auto-assign.
+     * With courier rules, the courier is always picked here so a blocked courier is never auto-assigned.
+     */
+    private async getPreferredCourierId(data: {
+        pickup_postcode?: string
+        delivery_postcode?: string
+        weight: number
+        cod: number
+        declared_value?: number
+    }, rules: CourierRules = {}): Promise<number | null> {
+        const hasRules = !!(rules.allowed_courier_ids?.length || rules.blocked_courier_ids?.length)
+        if (!data.pickup_postcode || !data.delivery_postcode) {
+            if (hasRules) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    "Pickup and delivery pincodes are required to apply courier rules"
+                )
+            }
+            return null
+        }
+
+        const manager = getShiprocketManager()
+
+        if (hasRules) {
+            const couriers = await this.getAvailableCouriers({
+                pickup_postcode: data.pickup_postcode,
+                delivery_postcode: data.delivery_postcode,
+                weight: data.weight,
+                cod: data.cod,
+                declared_value: data.declared_value,
+                ...rules,
+            })
+            const courier = manager.getDeliveryPreference() === "CHEAP"
+                ? selectCourier(couriers)
+                : [...couriers].sort((a, b) =>
+                    (parseInt(a.estimated_delivery_days) || 99) - (parseInt(b.estimated_delivery_days) || 99)
+                )[0]
+            return Number(courier.courier_company_id)
+        }
+
+        try {
+            return await manager.getPreferredCourier({
+                pickup_postcode: data.pickup_postcode,
+                delivery_postcode: data.delivery_postcode,
+                weight: data.weight,
+                cod: data.cod,
+                declared_value: data.declared_value,
+            })
+        } catch {
+            // Fallback to auto-assign if courier selection fails
+            return null
+        }
+    }
+
+    /**
+     * Create a multi-piece shipment (MPS): one master AWB with a child AWB per package.
+     * Uses the forward-shipment wrapper which creates the order and assigns AWBs in a single call.
+     */
+    private async createMultiPackage(
+        orderData: Record<string, any>,
+        packages: ShipmentPackage[],
+        courierId: number | null,
+        codAmount: number,
+        medusaOrderId?: string
+    ): Promise<ShiprocketCreateOrderResponse> {
+        const payload: Record<string, any> = {
+            ...orderData,
+            is_mps: 1,
+            packages: packages.map((pkg, index) => ({
+                package_no: index + 1,
+                length: pkg.length,
+                breadth: pkg.breadth,
+                height: pkg.height,
+                weight: pkg.weight,
+                items: pkg.items.map((item) => ({
+                    name: item.title,
+                    units: item.quantity,
+                })),
+            })),
+            // Shipment-level weight is the sum of all pieces
+            weight: packages.reduce((sum, pkg) => sum + pkg.weight, 0),
+        }
+        if (courierId) {
+            payload.courier_id = courierId
+        }
+
+        try {
+            const response = await (await this.getSharedAxios()).post(MPS_CREATE_PATH, payload)
+            const result = response.data?.payload || response.data
+
+            if (!result?.shipment_id || !result?.awb_code) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_ALLOWED,
+                    response.data?.message || "Shiprocket multi-package shipment created without AWB"
+                )
+            }
+
+            // Child AWBs are returned in package order; the master AWB covers the first piece
+            const childAwbs: string[] = Array.isArray(result.child_awbs) && result.child_awbs.length
+                ? result.child_awbs
+                : [result.awb_code]
+            const labelUrls: string[] = Array.isArray(result.label_urls) ? result.label_urls : []
+
+            return {
+                order_id: result.order_id,
+                shipment_id: result.shipment_id,
+                status: result.status || "",
+                status_code: result.status_code || 0,
+                pickup_location: orderData.pickup_location,
+                payment_method: orderData.payment_method,
+                cod_amount: codAmount,
+                shipping_charges: result.shipping_charges || "",
+                transaction_charges: result.transaction_charges || "",
+                giftwrap_charges: result.giftwrap_charges || "",
+                awb: result.awb_code,
+                courier_company_id: result.courier_company_id,
+                courier_name: result.courier_name,
+                tracking_number: result.awb_code,
+                tracking_url: `https://shiprocket.co/tracking/${result.awb_code}`,
+                label_url: result.label_url,
+                is_mps: true,
+                packages: packages.map((pkg, index) => {
+                    const awb = childAwbs[index] || result.awb_code
+                    return {
+                        awb,
+                        tracking_url: `https://shiprocket.co/tracking/${awb}`,
+                        label_url: labelUrls[index] || result.label_url || "",
+                        length: pkg.length,
+                        breadth: pkg.breadth,
+                        height: pkg.height,
+                        weight: pkg.weight,
+                        items: pkg.items,
+                        box_id: pkg.box_id,
+                        box_name: pkg.box_name,
+                    }
+                }),
+            }
         } catch (error: any) {
             if (error instanceof MedusaError) throw error
-            handleError(error, { operation: "create", orderId: order?.id })
+            handleError(error, { operation: "createMultiPackage", orderId: medusaOrderId })
         }
     }
 
@@ -385,6 +1198,29 @@ export default class ShiprocketClient {
         }
     }
 
+    /**
+     * Act on a failed delivery (NDR): ask the courier to attempt delivery again, optionally on
+     * another date or at a corrected address, or to return the shipment to origin (RTO)
+     */
+    async actionNdr(awb: string, action: NdrAction): Promise<void> {
+        const payload: Record<string, any> = {
+            action: action.action === "rto" ? "return" : "re-attempt",
+            comments: action.comments || (action.action === "rto" ? "Return to origin" : "Re-attempt delivery"),
+        }
+        if (action.action === "reattempt") {
+            if (action.proposed_date) payload.proposed_date = action.proposed_date
+            if (action.address_1) payload.address1 = action.address_1
+            if (action.address_2) payload.address2 = action.address_2
+            if (action.phone) payload.phone = validateAndSanitizePhone(action.phone, "Phone")
+        }
+
+        try {
+            await (await this.getSharedAxios()).post(`/ndr/${encodeURIComponent(awb)}/action`, payload)
+        } catch (error: any) {
+            handleError(error, { operation: "actionNdr" })
+        }
+    }
+
     /**
      * Get tracking information for a shipment
      */
@@ -400,52 +1236,172 @@ export default class ShiprocketClient {
     }
 
     /**
-     * Create a return order in Shiprocket
-     */
-    async createReturn(fulfillment: any): Promise<ShiprocketCreateOrderResponse> {
-        const returnData = {
-            order_id: `${fulfillment.id}-${Math.floor(Date.now() / 1000)}`,
-            order_date: new Date().toISOString().split("T")[0],
-            pickup_customer_name: fulfillment.pickup_address?.first_name,
-            pickup_last_name: fulfillment.pickup_address?.last_name || "",
-            pickup_address: fulfillment.pickup_address?.address_1,
-            pickup_address_2: fulfillment.pickup_address?.address_2 || "",
-            pickup_city: fulfillment.pickup_address?.city,
-            pickup_state: fulfillment.pickup_address?.province,
-            pickup_country: fulfillment.pickup_address?.country_code || "India",
-            pickup_pincode: fulfillment.pickup_address?.postal_code,
-            pickup_email: fulfillment.email,
-            pickup_phone: fulfillment.pickup_address?.phone,
-            order_items: fulfillment.items?.map((item: any) => ({
-                name: item.title,
-                sku: item.sku,
-                units: item.quantity,
-                selling_price: item.unit_price,
-                discount: "",
-                qc_enable: false,
-            })) || [],
-            payment_method: "Prepaid",
-            total_discount: "0",
-            sub_total: fulfillment.sub_total || 0,
-            length: 10,
-            breadth: 10,
-            height: 10,
-            weight: 0.5,
-        }
-
+     * Create a reverse pickup in Shiprocket and assign its AWB.
+     *
+     * The customer's shipping address is the pickup, the return's stock location address
+     * (the fulfillment `delivery_address`) is the destination. Weight and dimensions come from
+     * the returned variants, and with `qc_enable` the courier checks each item against its
+     * QC details before accepting it.
+     *
+     * @param fulfillment - The return fulfillment, with items and delivery address
+     * @param order - The order being returned, with items, variants and shipping address
+     */
+    async createReturn(
+        fulfillment: any,
+        order: any,
+        options: ShiprocketReturnOptions = {}
+    ): Promise<ShiprocketReturnResponse> {
         try {
+            const items = fulfillment?.items || []
+            if (!items.length) {
+                throw new MedusaError(MedusaError.Types.INVALID_DATA, "Return has no items to pick up")
+            }
+
+            const orderItemMap = new Map<string, any>((order?.items || []).map((item: any) => [item.id, item]))
+
+            const units: PackageUnit[] = []
+            for (const item of items) {
+                const orderItem = orderItemMap.get(item.line_item_id)
+                if (!orderItem?.variant) {
+                    throw new MedusaError(
+                        MedusaError.Types.INVALID_DATA,
+                        `Variant data missing for returned item: ${item.title}`
+                    )
+                }
+
+                const dimensions = getVariantDimensions(orderItem.variant)
+                if (!hasAllDimensions(dimensions)) {
+                    throw new MedusaError(
+                        MedusaError.Types.INVALID_DATA,
+                        `Missing dimensions/weight for "${item.title}". Please set them on the Variant.`
+                    )
+                }
+
+                const quantity = Number(item.quantity || item.raw_quantity?.value || 1)
+                for (let i = 0; i < quantity; i++) {
+                    units.push({ line_item_id: item.line_item_id, title: item.title, ...dimensions })
+                }
+            }
+
+            // The customer sends everything back in one parcel
+            const [parcel] = packUnits(units)
+
+            const customer = order?.shipping_address || {}
+            const warehouse = fulfillment?.delivery_address || {}
+            if (!isDomesticCountry(customer.country_code) || !isDomesticCountry(warehouse.country_code)) {
+                throw new MedusaError(
+                    MedusaError.Types.NOT_ALLOWED,
+                    "Shiprocket reverse pickups are only available within India"
+                )
+            }
+
+            const invoice = buildShipmentInvoice(items, orderItemMap, order)
+            const qcEnable = !!options.qc_enable
+
+            const returnData = {
+                // Keyed by the return fulfillment id, like forward orders
+                order_id: fulfillment.id,
+                order_date: new Date().toISOString().split("T")[0],
+
+                pickup_customer_name: requireField(customer.first_name, "Pickup First Name"),
+                pickup_last_name: customer.last_name || "",
+                pickup_address: requireField(customer.address_1, "Pickup Address"),
+                pickup_address_2: customer.address_2 || "",
+                pickup_city: requireField(customer.city, "Pickup City"),
+                pickup_state: requireField(customer.province, "Pickup State"),
+                pickup_country: (customer.country_code || "IN").toUpperCase(),
+                pickup_pincode: validateAndSanitizePincode(customer.postal_code, "Pickup Pincode"),
+                pickup_email: requireField(order?.email, "Pickup Email"),
+                pickup_phone: validateAndSanitizePhone(requireField(customer.phone, "Pickup Phone"), "Pickup Phone"),
+
+                shipping_customer_name: requireField(
+                    options.destination_name || warehouse.company || warehouse.first_name,
+                    "Return Destination Name"
+                ),
+                shipping_address: requireField(warehouse.address_1, "Return Destination Address"),
+                shipping_address_2: warehouse.address_2 || "",
+                shipping_city: requireField(warehouse.city, "Return Destination City"),
+                shipping_state: requireField(warehouse.province, "Return Destination State"),
+                shipping_country: (warehouse.country_code || "IN").toUpperCase(),
+                shipping_pincode: validateAndSanitizePincode(warehouse.postal_code, "Return Destination Pincode"),
+                shipping_phone: validateAndSanitizePhone(
+                    requireField(warehouse.phone, "Return Destination Phone"),
+                    "Return Destination Phone"
+                ),
+
+                order_items: invoice.order_items.map((item, index) => {
+                    const qc = options.qc?.[items[index].line_item_id] || {}
+                    return {
+                        ...item,
+                        ...(qc.reason && { return_reason: qc.reason }),
+                        qc_enable: qcEnable,
+                        ...(qcEnable && {
+                            qc_product_name: item.name,
+                            qc_product_image: qc.product_image || "",
+                            qc_brand: qc.brand || "",
+                            qc_color: qc.color || "",
+                            qc_size: qc.size || "",
+                            qc_ean_barcode: qc.ean_barcode || "",
+                            qc_serial_no: qc.serial_no || "",
+                        }),
+                    }
+                }),
+
+                // Reverse pickups are paid by the merchant; nothing is collected from the customer
+                payment_method: "Prepaid",
+                sub_total: invoice.sub_total,
+                total_discount: invoice.total_discount,
+                length: parcel.length,
+                breadth: parcel.breadth,
+                height: parcel.height,
+                weight: parcel.weight,
+            }
+
             const response = await (await this.getSharedAxios()).post("/orders/create/return", returnData)
-            return response.data
+            const created = response.data || {}
+            if (!created.shipment_id) {
+                throw new MedusaError(
+                    MedusaError.Types.UNEXPECTED_STATE,
+                    created.message || "Shiprocket did not create the return order"
+                )
+            }
+
+            const result: ShiprocketReturnResponse = {
+                order_id: String(created.order_id),
+                shipment_id: String(created.shipment_id),
+                is_return: true,
+                qc_enable: qcEnable,
+                weight: parcel.weight,
+            }
+
+            // Keep the return order when the reverse AWB can't be assigned yet; it can be retried
+            try {
+                const assigned = await this.assignAwb(created.shipment_id, null, true)
+                Object.assign(result, {
+                    awb: assigned.awb,
+                    courier_company_id: assigned.courier_company_id,
+                    courier_name: assigned.courier_name,
+                    tracking_number: assigned.awb,
+                    tracking_url: `https://shiprocket.co/tracking/${assigned.awb}`,
+                })
+            } catch (error: any) {
+                result.last_error = error.message
+                return result
+            }
+
+            result.label_url = await this.generateLabel(result) || undefined
+            return result
         } catch (error: any) {
+            if (error instanceof MedusaError) throw error
             handleError(error, { operation: "createReturn" })
         }
     }
 
     /**
-     * Generate documents (manifest, label, invoice) for a shipment
+     * Generate documents (label, invoice) for a shipment.
+     * Manifests are generated at the end of the day for all shipments of a courier, see `generateManifest`.
      */
     async createDocuments(fulfillment: any): Promise<{
-        manifest: string
         label: string
         invoice: string
     }> {
@@ -456,8 +1412,7 @@ export default class ShiprocketClient {
             })
 
         // Shiprocket expects arrays for IDs even if it's just one
-        const [manifestRes, labelRes, invoiceRes] = await Promise.all([
-            safePost("/manifests/generate", { order_ids: [fulfillment.shipment_id] }),
+        const [labelRes, invoiceRes] = await Promise.all([
             safePost("/courier/generate/label", { shipment_id: [fulfillment.shipment_id] }),
             safePost("/orders/print/invoice", { ids: [fulfillment.order_id] }),
         ])
@@ -476,7 +1431,6 @@ export default class ShiprocketClient {
         }
 
         return {
-            manifest: extractUrl(manifestRes, "manifest_url", "status", 1),
             label: extractUrl(labelRes, "label_url", "label_created", 1),
             invoice: extractUrl(invoiceRes, "invoice_url", "is_invoice_created", true),
         }
@@ -498,6 +1452,92 @@ export default class ShiprocketClient {
         }
     }
 
+    /**
+     * Generate the labels of many shipments in one call.
+     * Shiprocket returns a single PDF with the labels in the order of `shipmentIds`.
+     */
+    async generateLabels(shipmentIds: (string | number)[]): Promise<ShiprocketBulkLabel> {
+        try {
+            const response = await (await this.getSharedAxios()).post("/courier/generate/label", {
+                shipment_id: shipmentIds.map(Number),
+            })
+            const result = response.data?.data || response.data || {}
+
+            if (result.label_created !== 1 || !result.label_url) {
+                throw new MedusaError(
+                    MedusaError.Types.UNEXPECTED_STATE,
+                    result.response || result.message || "Shiprocket did not generate the labels"
+                )
+            }
+
+            return {
+                label_url: result.label_url,
+                not_created: Array.isArray(result.not_created) ? result.not_created.map(String) : [],
+            }
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "generateLabels" })
+        }
+    }
+
+    /**
+     * Download a generated document (label, invoice, manifest).
+     * Document URLs are public, so the authenticated client isn't used.
+     */
+    async downloadDocument(url: string): Promise<Uint8Array> {
+        try {
+            const response = await axios.get<ArrayBuffer>(url, {
+                responseType: "arraybuffer",
+                timeout: DOCUMENT_DOWNLOAD_TIMEOUT,
+            })
+            return new Uint8Array(response.data)
+        } catch (error: any) {
+            handleError(error, { operation: "downloadDocument" })
+        }
+    }
+
+    /**
+     * Generate one manifest for shipments handed over to the same courier.
+     * Shiprocket manifests a shipment only once; use `printManifest` to get an existing manifest again.
+     */
+    async generateManifest(shipmentIds: (string | number)[]): Promise<string> {
+        try {
+            const response = await (await this.getSharedAxios()).post("/manifests/generate", {
+                shipment_id: shipmentIds.map(Number),
+            })
+            const data = response.data?.data || response.data
+            const result = Array.isArray(data) ? data[0] : data
+
+            if (!result?.manifest_url) {
+                throw new MedusaError(
+                    MedusaError.Types.UNEXPECTED_STATE,
+                    result?.message || response.data?.message || "Shiprocket did not generate the manifest"
+                )
+            }
+            return result.manifest_url
+        } catch (error: any) {
+            if (error instanceof MedusaError) throw error
+            handleError(error, { operation: "generateManifest" })
+        }
+    }
+
+    /**
+     * Print the existing manifest of already manifested orders
+     * @param orderIds - Shiprocket order ids
+     */
+    async printManifest(orderIds: (string | number)[]): Promise<string> {
+        try {
+            const response = await (await this.getSharedAxios()).post("/manifests/print", {
+                order_ids: orderIds.map(String),
+            })
+            const data = response.data?.data || response.data
+            const result = Array.isArray(data) ? data[0] : data
+            return result?.manifest_url || ""
+        } catch {
+            return ""
+        }
+    }
+
     /**
      * Generate invoice for an order
      */
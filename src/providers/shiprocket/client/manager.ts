@@ -3,6 +3,7 @@ import http from "http"
 import https from "https"
 import { MedusaError } from "@medusajs/utils"
 import { Logger } from "@medusajs/framework/types"
+import { applyCourierRules, CourierRules } from "../utils"
 
 interface CachedToken {
     token: string
@@ -16,6 +17,15 @@ interface CachedDeliveryEstimate {
 
 type DeliveryPreference = "FAST" | "CHEAP"
 
+/**
+ * Cache key suffix for a shipping option's courier rules
+ */
+function courierRulesKey(rules: CourierRules): string {
+    const allowed = rules.allowed_courier_ids?.length ? `-a${rules.allowed_courier_ids.join(".")}` : ""
+    const blocked = rules.blocked_courier_ids?.length ? `-b${rules.blocked_courier_ids.join(".")}` : ""
+    return allowed + blocked
+}
+
 // Fallback logger for when Medusa logger is not available
 const fallbackLogger: Logger = {
     debug: (msg: string) => { console.debug(`[Shiprocket] ${msg}`) },
@@ -320,7 +330,8 @@ class ShiprocketClientManager {
         delivery_postcode: string
         weight?: number
         cod?: number
-    }): Promise<{
+        declared_value?: number
+    } & CourierRules): Promise<{
         serviceable: boolean
         preference: DeliveryPreference
         courier_name: string | null
@@ -335,7 +346,8 @@ class ShiprocketClientManager {
 
         const weight = data.weight || 0.5
         const cod = data.cod || 0
-        const cacheKey = `${data.pickup_postcode}-${data.delivery_postcode}-${weight}-${cod}`
+        const declaredValue = data.declared_value || 0
+        const cacheKey = `${data.pickup_postcode}-${data.delivery_postcode}-${weight}-${cod}-${declaredValue}${courierRulesKey(data)}`
 
         // LRU eviction: if cache is full, remove oldest entry
         if (this.deliveryEstimateCache.size >= this.maxCacheSize) {
@@ -358,10 +370,11 @@ class ShiprocketClientManager {
                     delivery_postcode: data.delivery_postcode,
                     weight,
                     cod,
+                    ...(declaredValue > 0 && { declared_value: declaredValue }),
                 }
             })
 
-            const couriers = response.data?.data?.available_courier_companies || []
+            const couriers = applyCourierRules(response.data?.data?.available_courier_companies || [], data)
 
             if (couriers.length === 0) {
                 const result = {
@@ -424,6 +437,80 @@ class ShiprocketClientManager {
         }
     }
 
+    /**
+     * Get all courier options for a route so customers can choose one at checkout.
+     * Sorted by rate (cheapest first). Cached for 4 hours.
+     */
+    async getCourierOptions(data: {
+        pickup_postcode: string
+        delivery_postcode: string
+        weight?: number
+        cod?: number
+        declared_value?: number
+    } & CourierRules): Promise<{
+        courier_company_id: number
+        courier_name: string
+        rate: number
+        etd: string | null
+        estimated_delivery_days: number | null
+        is_surface: boolean
+    }[]> {
+        await this.ensureToken()
+
+        const weight = data.weight || 0.5
+        const cod = data.cod || 0
+        const declaredValue = data.declared_value || 0
+        const cacheKey = `options-${data.pickup_postcode}-${data.delivery_postcode}-${weight}-${cod}-${declaredValue}${courierRulesKey(data)}`
+
+        const cached = this.deliveryEstimateCache.get(cacheKey)
+        if (cached && Date.now() < cached.expiresAt) {
+            return cached.response
+        }
+
+        try {
+            const response = await this.axios.get("/courier/serviceability/", {
+                params: {
+                    pickup_postcode: data.pickup_postcode,
+                    delivery_postcode: data.delivery_postcode,
+                    weight,
+                    cod,
+                    ...(declaredValue > 0 && { declared_value: declaredValue }),
+                }
+            })
+
+            const couriers = applyCourierRules(response.data?.data?.available_courier_companies || [], data)
+            const options = couriers
+                .map((c: any) => ({
+                    courier_company_id: c.courier_company_id,
+                    courier_name: c.courier_name,
+                    rate: Math.ceil(Number(c.rate) || 0),
+                    etd: c.etd || null,
+                    estimated_delivery_days: parseInt(c.estimated_delivery_days) || null,
+                    is_surface: !!c.is_surface,
+                }))
+                .sort((a: any, b: any) => a.rate - b.rate)
+
+            if (this.deliveryEstimateCache.size >= this.maxCacheSize) {
+                const firstKey = this.deliveryEstimateCache.keys().next().value
+                if (firstKey) {
+                    this.deliveryEstimateCache.delete(firstKey)
+                }
+            }
+            this.deliveryEstimateCache.set(cacheKey, {
+                response: options,
+                expiresAt: Date.now() + DELIVERY_ESTIMATE_CACHE_HOURS * 60 * 60 * 1000,
+            })
+
+            return options
+        } catch (error: any) {
+            this.logger.error(`Failed to get courier options: ${error.message}`)
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                error?.response?.data?.message || "Failed to get courier options"
+            )
+        }
+    }
+
     /**
      * Get preferred courier for order creation.
      * Returns the courier_company_id based on SHIPROCKET_DELIVERY_PREFERENCE.
@@ -433,7 +520,8 @@ class ShiprocketClientManager {
         delivery_postcode: string
         weight?: number
         cod?: number
-    }): Promise<number | null> {
+        declared_value?: number
+    } & CourierRules): Promise<number | null> {
         const estimate = await this.getDeliveryEstimate(data)
         return estimate.courier_company_id
     }
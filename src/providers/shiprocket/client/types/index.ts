@@ -1,14 +1,66 @@
 import { AxiosError } from "axios"
 import { Logger } from "@medusajs/framework/types"
+import type { PackageItem, ShippingBox } from "../../utils/packaging"
+import type { CourierTier } from "../../utils"
+
+/**
+ * Stock location metadata key holding the Shiprocket pickup location nickname
+ */
+export const PICKUP_LOCATION_METADATA_KEY = "shiprocket_pickup_location"
 
 export interface ShiprocketClientOptions {
     email: string
     password: string
     pickup_location?: string
+    /** Medusa stock location id -> Shiprocket pickup location nickname */
+    pickup_locations?: Record<string, string>
+    /** Maximum dead weight (kg) per package before the order is split into a multi-package shipment */
+    max_package_weight?: number
+    /** Box catalog used to bin-pack fulfillment items */
+    boxes?: ShippingBox[]
+    /** Flat COD handling fee added to the amount collected on delivery */
+    cod_charges?: number
+    /** Buy shipment insurance when the declared value is at or above this amount */
+    insurance_threshold?: number
+    /** Importer Exporter Code, required for international shipments */
+    iec_code?: string
+    /** Customs purpose of international shipments (default "Sale") */
+    purpose_of_shipment?: ShiprocketPurposeOfShipment
     timeout?: number
     logger?: Logger
 }
 
+/**
+ * Minimal stock location shape used to resolve a Shiprocket pickup location
+ */
+export interface ShiprocketStockLocationRef {
+    id?: string
+    name?: string
+    metadata?: Record<string, unknown> | null
+}
+
+export interface ShiprocketCreateOptions {
+    /** Pickup location nickname; resolved from the fulfillment's stock location when omitted */
+    pickup_location?: string
+    /** Courier chosen at checkout; the AWB is assigned to this courier while it still serves the route */
+    courier_id?: number | string
+    /** Service tier of the shipping option, picks the courier when the one chosen at checkout is no longer serviceable */
+    tier?: CourierTier
+    /** Allow/deny lists of the shipping option, applied when the courier is picked automatically */
+    allowed_courier_ids?: number[]
+    blocked_courier_ids?: number[]
+    /** Create the order without assigning the AWB; the shipment is released later (exchange replacements) */
+    hold_awb?: boolean
+}
+
+export interface ShiprocketCourier {
+    id: number
+    name: string
+    status?: number
+    type?: string
+    [key: string]: unknown
+}
+
 export interface ShiprocketError {
     message: string
     errors?: Record<string, string | string[]>
@@ -22,11 +74,32 @@ export interface ShiprocketCalculateRateRequest {
     pickup_postcode: string
     delivery_postcode: string
     weight: number
+    /** Package dimensions in cm; Shiprocket then rates on the volumetric weight when it is higher */
+    length?: number
+    breadth?: number
+    height?: number
     cod?: number
     declared_value?: number
     allowed_courier_ids?: number[]
+    blocked_courier_ids?: number[]
 }
 
+export interface ShiprocketInternationalRateRequest {
+    pickup_postcode: string
+    /** ISO 3166-1 alpha-2 destination country code */
+    delivery_country: string
+    delivery_postcode?: string
+    weight: number
+    length?: number
+    breadth?: number
+    height?: number
+    declared_value?: number
+    allowed_courier_ids?: number[]
+    blocked_courier_ids?: number[]
+}
+
+export type ShiprocketPurposeOfShipment = "Sale" | "Gift" | "Sample" | "Repair" | "Personal"
+
 export interface ShiprocketCourierCompany {
     id: number
     courier_name: string
@@ -44,11 +117,25 @@ export interface ShiprocketCalculateRateResponse {
     }
 }
 
+export interface ShiprocketShipmentPackage {
+    awb: string
+    tracking_url: string
+    label_url?: string
+    length: number
+    breadth: number
+    height: number
+    weight: number
+    items?: PackageItem[]
+    box_id?: string
+    box_name?: string
+}
+
 export interface ShiprocketCreateOrderResponse {
     order_id: string
     shipment_id: string
     status: string
     status_code: number
+    pickup_location?: string
     awb?: string
     courier_company_id?: number
     courier_name?: string
@@ -56,9 +143,159 @@ export interface ShiprocketCreateOrderResponse {
     tracking_url?: string
     label_url?: string,
     payment_method: string,
+    cod_amount?: number,
     shipping_charges: string,
     transaction_charges: string,
     giftwrap_charges: string
+    is_mps?: boolean
+    packages?: ShiprocketShipmentPackage[]
+    declared_value?: number
+    insurance?: ShiprocketShipmentInsurance
+    is_international?: boolean
+    /** Progress of the shipment creation, see ShiprocketShipmentStage */
+    stage?: ShiprocketShipmentStage
+    /** Last error of a step that is retried in the background */
+    last_error?: string
+    /** Request a courier pickup as soon as the AWB is assigned */
+    auto_pickup?: boolean
+    pickup?: ShiprocketPickup
+    /** Medusa exchange this shipment sends the replacement for */
+    exchange_id?: string
+    /** Courier quoted at checkout, set when it no longer served the route and another courier of its tier was used */
+    quoted_courier_id?: number
+}
+
+/**
+ * Details the courier checks at the customer's door before accepting a returned item
+ */
+export interface ShiprocketReturnQc {
+    /** Why the customer returns the item */
+    reason?: string
+    /** Image of the item as sold, for the courier to compare against */
+    product_image?: string
+    brand?: string
+    color?: string
+    size?: string
+    ean_barcode?: string
+    serial_no?: string
+}
+
+export interface ShiprocketReturnOptions {
+    /** Ask the courier to inspect the items at pickup (Shiprocket QC) */
+    qc_enable?: boolean
+    /** QC details per order line item id */
+    qc?: Record<string, ShiprocketReturnQc>
+    /** Name on the warehouse receiving the return */
+    destination_name?: string
+}
+
+/**
+ * Progress of a reverse pickup, stored in the return fulfillment `data.return_status`
+ * - pending: the return fulfillment exists, the Shiprocket return order doesn't yet
+ * - awb_pending: the return order exists, the reverse AWB couldn't be assigned
+ * - awb_assigned: the courier will pick the parcel up from the customer
+ * - failed: the return order couldn't be created, see `last_error`
+ */
+export type ShiprocketReturnStatus = "pending" | "awb_pending" | "awb_assigned" | "failed"
+
+export interface ShiprocketReturnResponse {
+    order_id: string
+    shipment_id: string
+    is_return: true
+    awb?: string
+    courier_company_id?: number
+    courier_name?: string
+    tracking_number?: string
+    tracking_url?: string
+    label_url?: string
+    qc_enable: boolean
+    weight: number
+    /** Reverse AWB assignment error; the return order exists and can be retried */
+    last_error?: string
+}
+
+/**
+ * Steps of creating a shipment, in order. A retry resumes after the last completed step.
+ * - order_created: the Shiprocket order exists, no AWB yet
+ * - awb_pending: AWB assignment failed for a transient reason and is retried in the background
+ * - awb_assigned: the AWB is assigned, documents are missing
+ * - documents_ready: the label has been generated
+ * - failed: retries gave up, needs attention
+ * - on_hold: the order exists, the AWB waits for the shipment to be released (exchange replacements)
+ */
+export type ShiprocketShipmentStage =
+    | "order_created"
+    | "awb_pending"
+    | "awb_assigned"
+    | "documents_ready"
+    | "failed"
+    | "on_hold"
+
+/**
+ * Courier pickup request for one or more shipments, as stored in fulfillment `data.pickup`
+ */
+export interface ShiprocketPickup {
+    pickup_token_number?: string
+    /** Date the courier is expected to pick up, as returned by Shiprocket */
+    pickup_scheduled_date?: string
+    /** Date requested, YYYY-MM-DD */
+    pickup_date?: string
+    status?: string
+    requested_at: string
+    rescheduled?: boolean
+}
+
+/**
+ * Audit note of a delivery address change pushed to Shiprocket, kept in fulfillment `data.address_updates`
+ */
+export interface ShiprocketAddressUpdate {
+    updated_at: string
+    previous_pincode?: string
+    pincode?: string
+    /** Address lines as sent to Shiprocket */
+    address: string
+    phone?: string
+    /** The courier couldn't serve the new pincode, the shipment was moved to another one */
+    previous_awb?: string
+    awb?: string
+    courier_name?: string
+    /** Why the update wasn't applied, or was applied without a serviceable courier */
+    error?: string
+}
+
+/**
+ * Labels generated for many shipments in one call
+ */
+export interface ShiprocketBulkLabel {
+    /** Single PDF with one label per shipment */
+    label_url: string
+    /** Shipment ids Shiprocket could not generate a label for */
+    not_created: string[]
+}
+
+export interface ShiprocketAwbAssignment {
+    awb: string
+    courier_company_id?: number
+    courier_name?: string
+}
+
+/**
+ * A Shiprocket order found by its channel order id (the Medusa fulfillment id)
+ */
+export interface ShiprocketExistingOrder {
+    order_id: string
+    shipment_id: string
+    awb?: string
+    courier_company_id?: number
+    courier_name?: string
+    /** Package AWBs of a multi-piece shipment, in package order */
+    child_awbs?: string[]
+    status?: string
+}
+
+export interface ShiprocketShipmentInsurance {
+    insured: boolean
+    insured_amount: number
 }
 
 export interface ShiprocketTrackingResponse {
@@ -145,9 +382,23 @@ export interface ShiprocketPickupLocation {
     long?: string
     status: number
     rto_address_id?: number
+    phone_verified?: number
     new: number
 }
 
+export interface ShiprocketCreatePickupLocationRequest {
+    pickup_location: string  // Nickname, must be unique on the account
+    name: string
+    email: string
+    phone: string
+    address: string
+    address_2?: string
+    city: string
+    state: string
+    country: string
+    pin_code: string
+}
+
 export interface ShiprocketPickupLocationsResponse {
     data: {
         shipping_address: ShiprocketPickupLocation[]
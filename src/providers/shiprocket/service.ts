@@ -1,4 +1,4 @@
-import { AbstractFulfillmentProviderService, MedusaError } from "@medusajs/framework/utils";
+import { AbstractFulfillmentProviderService, MedusaError, Modules } from "@medusajs/framework/utils";
 import {
     CalculatedShippingOptionPrice,
     CalculateShippingOptionPriceDTO,
@@ -8,26 +8,73 @@ import {
     FulfillmentItemDTO,
     FulfillmentOption,
     FulfillmentOrderDTO,
+    IStockLocationService,
     Logger,
 } from "@medusajs/framework/types";
 
 import ShiprocketClient from "./client";
+import { getClientOptions } from "./client/from-env";
+import { ShiprocketCourierCompany, ShiprocketPurposeOfShipment, ShiprocketStockLocationRef } from "./client/types";
+import {
+    applyPricingRules,
+    CourierTier,
+    getCourierRules,
+    getPricingRules,
+    isDomesticCountry,
+    selectCourier,
+} from "./utils";
+import {
+    chargeableWeight,
+    getVariantDimensions,
+    hasAllDimensions,
+    MissingDimensionsPolicy,
+    packUnits,
+    PackageUnit,
+    ShippingBox,
+    UnitDimensions,
+    withDefaultDimensions,
+} from "./utils/packaging";
+import { ShippingPriceBreakdown } from "./utils/pricing";
+import { getExchangeForItems } from "./utils/exchanges";
+import {
+    areStoredDocumentsStale,
+    documentUrlsData,
+    isShiprocketDocumentType,
+    SHIPROCKET_DOCUMENT_TYPES,
+    shipmentLabels,
+    ShiprocketDocument,
+    ShiprocketDocumentType,
+    toShiprocketDocument,
+} from "./utils/documents";
 
 type InjectedDependencies = {
     logger: Logger;
+    /** Available when the Fulfillment module lists the Stock Location module in its `dependencies` */
+    [Modules.STOCK_LOCATION]?: IStockLocationService;
 };
 
 type Options = {
     email: string;
     password: string;
     pickup_location?: string;
+    pickup_locations?: Record<string, string>;
     cod?: 0 | 1 | "true" | "false";
+    cod_charges?: number;
+    insurance_threshold?: number;
+    auto_pickup?: boolean;
+    iec_code?: string;
+    purpose_of_shipment?: ShiprocketPurposeOfShipment;
+    max_package_weight?: number;
+    boxes?: ShippingBox[];
+    missing_dimensions?: MissingDimensionsPolicy;
+    default_dimensions?: Partial<UnitDimensions>;
     timeout?: number;
 };
 
 class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderService {
     static identifier = "shiprocket";
 
+    protected container_: InjectedDependencies;
     protected logger_: Logger;
     protected options_: Options;
     protected client: ShiprocketClient;
@@ -48,20 +95,102 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
         if (options.pickup_location && typeof options.pickup_location !== "string") {
             throw new Error("Shiprocket 'pickup_location' option must be a string");
         }
+        if (
+            options.pickup_locations !== undefined &&
+            (typeof options.pickup_locations !== "object" ||
+                Object.values(options.pickup_locations as object).some((v) => typeof v !== "string"))
+        ) {
+            throw new Error(
+                "Shiprocket 'pickup_locations' option must map stock location ids to pickup location nicknames"
+            );
+        }
+        if (
+            options.max_package_weight !== undefined &&
+            (typeof options.max_package_weight !== "number" || options.max_package_weight <= 0)
+        ) {
+            throw new Error("Shiprocket 'max_package_weight' option must be a positive number (kg)");
+        }
+        if (
+            options.cod_charges !== undefined &&
+            (typeof options.cod_charges !== "number" || options.cod_charges < 0)
+        ) {
+            throw new Error("Shiprocket 'cod_charges' option must be a non-negative number");
+        }
+        if (
+            options.insurance_threshold !== undefined &&
+            (typeof options.insurance_threshold !== "number" || options.insurance_threshold < 0)
+        ) {
+            throw new Error("Shiprocket 'insurance_threshold' option must be a non-negative number");
+        }
+        if (options.auto_pickup !== undefined && typeof options.auto_pickup !== "boolean") {
+            throw new Error("Shiprocket 'auto_pickup' option must be a boolean");
+        }
+        if (options.iec_code !== undefined && !/^[A-Z0-9]{10}$/i.test(String(options.iec_code))) {
+            throw new Error("Shiprocket 'iec_code' option must be a 10 character Importer Exporter Code");
+        }
+        if (
+            options.purpose_of_shipment !== undefined &&
+            !["Sale", "Gift", "Sample", "Repair", "Personal"].includes(options.purpose_of_shipment as string)
+        ) {
+            throw new Error(
+                "Shiprocket 'purpose_of_shipment' option must be one of 'Sale', 'Gift', 'Sample', 'Repair' or 'Personal'"
+            );
+        }
+        if (
+            options.missing_dimensions !== undefined &&
+            !["fail", "warn", "default"].includes(options.missing_dimensions as string)
+        ) {
+            throw new Error("Shiprocket 'missing_dimensions' option must be one of 'fail', 'warn' or 'default'");
+        }
+        if (options.default_dimensions !== undefined) {
+            const defaults = options.default_dimensions as Record<string, unknown>;
+            if (
+                typeof defaults !== "object" ||
+                Object.values(defaults).some((d) => typeof d !== "number" || d <= 0)
+            ) {
+                throw new Error(
+                    "Shiprocket 'default_dimensions' option must have positive 'weight' (kg), 'length', 'breadth' and 'height' (cm)"
+                );
+            }
+        }
+        if (options.boxes !== undefined) {
+            if (!Array.isArray(options.boxes)) {
+                throw new Error("Shiprocket 'boxes' option must be an array of boxes");
+            }
+            for (const box of options.boxes as Record<string, unknown>[]) {
+                const dims = [box?.length, box?.breadth, box?.height];
+                if (!box?.id || dims.some((d) => typeof d !== "number" || d <= 0)) {
+                    throw new Error(
+                        "Each Shiprocket box requires an 'id' and positive 'length', 'breadth' and 'height' (cm)"
+                    );
+                }
+                if (
+                    box.tare_weight !== undefined &&
+                    (typeof box.tare_weight !== "number" || !isFinite(box.tare_weight) || box.tare_weight < 0)
+                ) {
+                    throw new Error(`Shiprocket box '${box.id}' 'tare_weight' must be a non-negative number (kg)`);
+                }
+                if (
+                    box.max_weight !== undefined &&
+                    (typeof box.max_weight !== "number" || !isFinite(box.max_weight) || box.max_weight <= 0)
+                ) {
+                    throw new Error(`Shiprocket box '${box.id}' 'max_weight' must be a positive number (kg)`);
+                }
+            }
+        }
     }
 
     /**
      * Constructs a new instance of the ShipRocketFulfillmentProviderService.
      */
-    constructor({ logger }: InjectedDependencies, options: Options) {
+    constructor(container: InjectedDependencies, options: Options) {
         super();
+        const { logger } = container;
+        this.container_ = container;
         this.logger_ = logger;
         this.options_ = options;
         this.client = new ShiprocketClient({
-            email: options.email,
-            password: options.password,
-            pickup_location: options.pickup_location,
-            timeout: options.timeout,
+            ...getClientOptions(options),
             logger: logger,
         });
 
@@ -76,6 +205,19 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
             {
                 id: "shiprocket-standard",
                 name: "Standard Shipping",
+                tier: "standard",
+                is_return: false,
+            },
+            {
+                id: "shiprocket-express",
+                name: "Express Shipping (Air)",
+                tier: "express",
+                is_return: false,
+            },
+            {
+                id: "shiprocket-economy",
+                name: "Economy Shipping (Surface)",
+                tier: "economy",
                 is_return: false,
             },
             {
@@ -94,15 +236,25 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
     }
 
     /**
-     * Calculates the shipping rate for a given order.
+     * Quotes a shipment for a cart: resolves the route and picks the courier
+     * for the option's service tier, or the courier chosen by the customer.
      */
-    async calculatePrice(
-        _optionData: CalculateShippingOptionPriceDTO["optionData"],
-        _data: CalculateShippingOptionPriceDTO["data"],
-        context: CalculateShippingOptionPriceDTO["context"]
-    ): Promise<CalculatedShippingOptionPrice> {
-        const pickupPostcode = context["from_location"]?.address?.postal_code as string;
+    private async getQuote(
+        optionData: Record<string, unknown>,
+        data: Record<string, unknown>,
+        context: Record<string, any>
+    ): Promise<{ courier: ShiprocketCourierCompany; rate: number; weight: number; pickup_location: string }> {
+        const fromLocation = context["from_location"];
+        const pickupLocation = await this.client.resolvePickupLocation(await this.retrieveStockLocation(fromLocation));
+
+        // Prefer the pincode registered on the Shiprocket pickup location, fall back to the stock location address
+        const pickupPostcode = (
+            await this.client.getPickupPincode(pickupLocation).catch(() => null) ||
+            fromLocation?.address?.postal_code
+        ) as string;
         const deliveryPostcode = context["shipping_address"]?.postal_code as string;
+        const deliveryCountry = context["shipping_address"]?.country_code as string | undefined;
+        const international = !isDomesticCountry(deliveryCountry);
 
         if (!pickupPostcode) {
             this.logger_.warn(
@@ -110,41 +262,179 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
             );
         }
 
-        if (!pickupPostcode || !deliveryPostcode) {
+        if (!pickupPostcode || (!deliveryPostcode && !international)) {
             throw new MedusaError(
                 MedusaError.Types.INVALID_DATA,
                 "Both pickup and delivery postcodes are required for rate calculation"
             );
         }
 
-        // Calculate total weight from items
-        const items = (context["items"] || []) as any[];
-        let totalWeightGrams = 0;
-
-        for (const item of items) {
-            const quantity = item.quantity || 1;
-            const itemWeight = item.variant?.weight ?? item.metadata?.weight ?? 0;
-            totalWeightGrams += itemWeight * quantity;
-        }
-
-        // Convert to kg, default to 0.5kg if no weight set
-        const weightKg = totalWeightGrams > 0 ? totalWeightGrams / 1000 : 0.5;
+        // Build the packages the same way fulfillment does and quote on the chargeable weight
+        const packages = packUnits(this.getCartUnits(context), {
+            maxWeight: this.options_.max_package_weight,
+            boxes: this.options_.boxes,
+        });
+        const weightKg = chargeableWeight(packages);
+        const [primaryPackage] = packages;
 
         const params = {
             pickup_postcode: pickupPostcode,
             delivery_postcode: deliveryPostcode,
             weight: weightKg,
+            length: primaryPackage.length,
+            breadth: primaryPackage.breadth,
+            height: primaryPackage.height,
             cod: (this.options_.cod === "true" || this.options_.cod === 1) ? 1 : 0 as number,
+            declared_value: this.getCartSubtotal(context),
+            ...getCourierRules(optionData),
         };
 
-        this.logger_.debug(`Shiprocket: Calculating rate for ${pickupPostcode} -> ${deliveryPostcode}, weight: ${weightKg}kg`);
+        this.logger_.debug(
+            `Shiprocket: Calculating rate for ${pickupPostcode} -> ${deliveryPostcode || ""} ${deliveryCountry || "IN"}, ` +
+            `chargeable weight: ${weightKg}kg, ${packages.length} package(s)`
+        );
+
+        // Non-India destinations are quoted on Shiprocket's international rates (prepaid only)
+        const couriers = international
+            ? await this.client.getInternationalCouriers({
+                ...params,
+                delivery_country: deliveryCountry as string,
+            })
+            : await this.client.getAvailableCouriers(params);
+        const courier = selectCourier(couriers, {
+            courier_id: data?.courier_id as number | string | undefined,
+            tier: optionData?.tier as CourierTier | undefined,
+        });
+
+        return {
+            courier,
+            rate: Number(courier.rate) || 0,
+            weight: weightKg,
+            pickup_location: pickupLocation,
+        };
+    }
+
+    /**
+     * Stock location a shipment leaves from, with the name and metadata its Shiprocket pickup
+     * location is resolved from. Checkout and fulfillment only carry the location id (and name),
+     * so the rest is read from the Stock Location module. Falls back to the given location when
+     * the module isn't a dependency of the Fulfillment module or the location can't be read.
+     */
+    private async retrieveStockLocation(
+        location?: ShiprocketStockLocationRef | null
+    ): Promise<ShiprocketStockLocationRef | null> {
+        if (!location?.id) return location || null;
+
+        let stockLocationService: IStockLocationService | undefined;
+        try {
+            stockLocationService = this.container_[Modules.STOCK_LOCATION];
+        } catch {
+            // Not registered in the Fulfillment module's container
+        }
+        if (!stockLocationService) return location;
 
-        const price = await this.client.calculate(params);
+        try {
+            const stockLocation = await stockLocationService.retrieveStockLocation(location.id, {
+                select: ["id", "name", "metadata"],
+            });
+            return { ...location, ...stockLocation };
+        } catch (error: any) {
+            this.logger_.warn(`Shiprocket: Failed to read stock location ${location.id}: ${error.message}`);
+            return location;
+        }
+    }
 
-        this.logger_.debug(`Shiprocket: Calculated rate: ${price}`);
+    /**
+     * Expands cart items into physical units with their weight and dimensions.
+     * Items without weight or dimensions are handled per the `missing_dimensions` option.
+     */
+    private getCartUnits(context: Record<string, any>): PackageUnit[] {
+        const policy = this.options_.missing_dimensions || "warn";
+        const defaults = withDefaultDimensions({
+            weight: 0,
+            length: 0,
+            breadth: 0,
+            height: 0,
+            ...this.options_.default_dimensions,
+        });
+        const units: PackageUnit[] = [];
+
+        for (const item of (context["items"] || []) as any[]) {
+            let dims = getVariantDimensions(item.variant);
+
+            if (!hasAllDimensions(dims)) {
+                const title = item.title || item.variant?.id || item.id;
+                if (policy === "fail") {
+                    throw new MedusaError(
+                        MedusaError.Types.INVALID_DATA,
+                        `Missing dimensions/weight for "${title}". Please set them on the Variant.`
+                    );
+                }
+                if (policy === "warn") {
+                    this.logger_.warn(
+                        `Shiprocket: Missing dimensions/weight for "${title}", using defaults for the rate quote`
+                    );
+                }
+                dims = withDefaultDimensions(dims, defaults);
+            }
+
+            const quantity = Number(item.quantity || 1);
+            for (let i = 0; i < quantity; i++) {
+                units.push({ line_item_id: item.id, title: item.title, ...dims });
+            }
+        }
+
+        if (!units.length) {
+            units.push({ line_item_id: "default", title: "Package", ...defaults });
+        }
+
+        return units;
+    }
+
+    /**
+     * Value of the cart items, used as the declared value and for free shipping thresholds.
+     */
+    private getCartSubtotal(context: Record<string, any>): number {
+        const items = (context["items"] || []) as any[];
+        return Number(
+            context["item_total"] ??
+            items.reduce((sum, item) => sum + Number(item.unit_price || 0) * (item.quantity || 1), 0)
+        );
+    }
+
+    /**
+     * Prices a quote with the shipping option's pricing rules (markup, handling fee,
+     * free shipping threshold, weight slabs, rounding).
+     */
+    private priceQuote(
+        optionData: Record<string, unknown>,
+        context: Record<string, any>,
+        quote: { rate: number; weight: number }
+    ): ShippingPriceBreakdown {
+        return applyPricingRules(
+            quote.rate,
+            { subtotal: this.getCartSubtotal(context), weight: quote.weight },
+            getPricingRules(optionData)
+        );
+    }
+
+    /**
+     * Calculates the shipping rate for a given order.
+     */
+    async calculatePrice(
+        optionData: CalculateShippingOptionPriceDTO["optionData"],
+        data: CalculateShippingOptionPriceDTO["data"],
+        context: CalculateShippingOptionPriceDTO["context"]
+    ): Promise<CalculatedShippingOptionPrice> {
+        const quote = await this.getQuote(optionData, data, context);
+        const price = this.priceQuote(optionData, context, quote);
+
+        this.logger_.debug(
+            `Shiprocket: Calculated price: ${price.amount} (courier rate ${price.courier_rate}, ${quote.courier.courier_name})`
+        );
 
         return {
-            calculated_amount: price,
+            calculated_amount: price.amount,
             is_calculated_price_tax_inclusive: true,
         };
     }
@@ -162,21 +452,102 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
         this.logger_.info(`Shiprocket: Creating fulfillment for order ${orderId}`);
 
         try {
-            const externalData = await this.client.create(fulfillment, items, order);
+            // Reuse the pickup location resolved at checkout when shipping from the same stock location
+            const pickupLocation = data.pickup_location_id === fulfillment.location_id && data.pickup_location
+                ? data.pickup_location as string
+                : await this.client.resolvePickupLocation(
+                    await this.retrieveStockLocation(fulfillment.location_id ? { id: fulfillment.location_id } : null)
+                );
+
+            // Exchange replacements may wait for the returned item before they get an AWB
+            const exchange = getExchangeForItems(order, items);
+
+            const externalData = await this.client.create(fulfillment, items, order, {
+                pickup_location: pickupLocation,
+                courier_id: data.courier_id as number | string | undefined,
+                tier: data.tier as CourierTier | undefined,
+                ...getCourierRules(data),
+                hold_awb: !!exchange?.hold,
+            });
+
+            if (externalData.quoted_courier_id) {
+                this.logger_.warn(
+                    `Shiprocket: Courier ${data.courier_name || externalData.quoted_courier_id} quoted at checkout ` +
+                    `no longer serves order ${orderId}, using courier ${externalData.courier_company_id} ` +
+                    `of the ${data.tier || "standard"} tier instead`
+                );
+            }
+
+            if (exchange) {
+                externalData.exchange_id = exchange.exchange_id;
+                if (exchange.hold && externalData.stage !== "on_hold") {
+                    this.logger_.warn(
+                        `Shiprocket: Replacement for exchange ${exchange.exchange_id} ships in several packages ` +
+                        `and can't be held, AWB assigned right away`
+                    );
+                }
+            }
+
+            if (this.options_.auto_pickup) {
+                externalData.auto_pickup = true;
+            }
+
+            if (externalData.stage === "on_hold") {
+                this.logger_.info(
+                    `Shiprocket: Order ${externalData.order_id} created for fulfillment ${fulfillment.id}, ` +
+                    `on hold until the return of exchange ${exchange?.exchange_id} is picked up`
+                );
+                return {
+                    data: {
+                        ...((fulfillment as object) || {}),
+                        ...externalData,
+                    },
+                    labels: [],
+                };
+            }
+
+            // AWB assignment failed for a transient reason: keep the order, the retry job finishes it
+            if (externalData.stage === "awb_pending") {
+                this.logger_.warn(
+                    `Shiprocket: Order ${externalData.order_id} created for fulfillment ${fulfillment.id}, ` +
+                    `AWB pending (${externalData.last_error}). It will be retried in the background.`
+                );
+                return {
+                    data: {
+                        ...((fulfillment as object) || {}),
+                        ...externalData,
+                    },
+                    labels: [],
+                };
+            }
 
             this.logger_.info(
                 `Shiprocket: Fulfillment created - Order ID: ${externalData.order_id}, ` +
                 `Shipment ID: ${externalData.shipment_id}, AWB: ${externalData.awb}`
             );
 
-            const { label, manifest, invoice } = await this.client.createDocuments(externalData);
-
-            // Only include label if it was successfully generated
-            const labelsEntry = label ? [{
-                tracking_number: externalData.tracking_number || "",
-                tracking_url: externalData.tracking_url || "",
+            const { label, invoice } = await this.client.createDocuments(externalData);
+            if (label) {
+                externalData.stage = "documents_ready";
+            }
+            Object.assign(externalData, documentUrlsData({
                 label_url: label,
-            }] : [];
+                invoice_url: invoice,
+            }, externalData.awb));
+
+            // Ask the courier to come and collect the parcel; a failure here leaves scheduling to the admin
+            if (this.options_.auto_pickup) {
+                try {
+                    externalData.pickup = await this.client.schedulePickup([externalData.shipment_id]);
+                } catch (err: any) {
+                    this.logger_.warn(
+                        `Shiprocket: Could not schedule pickup for shipment ${externalData.shipment_id}: ${err.message}`
+                    );
+                }
+            }
+
+            // Multi-package shipments get one label entry per child AWB
+            const labelsEntry: CreateFulfillmentResult["labels"] = shipmentLabels(externalData, label);
 
             return {
                 data: {
@@ -215,84 +586,181 @@ class ShipRocketFulfillmentProviderService extends AbstractFulfillmentProviderSe
     }
 
     /**
-     * Creates a return fulfillment in Shiprocket.
+     * Creates a return fulfillment.
+     * Medusa doesn't pass the order to the provider, so the reverse pickup is created by the
+     * return-requested subscriber, which has the customer address and the returned variants.
+     * The return option's `qc_enable` is carried over for it.
      */
     async createReturnFulfillment(
         fulfillment: Record<string, unknown>
     ): Promise<CreateFulfillmentResult> {
-        this.logger_.info(`Shiprocket: Creating return fulfillment`);
+        const shippingOption = fulfillment.shipping_option as { data?: Record<string, unknown> } | undefined;
 
-        const externalData = await this.client.createReturn(fulfillment);
-
-        this.logger_.info(`Shiprocket: Return fulfillment created - AWB: ${externalData.awb || externalData.tracking_number}`);
+        this.logger_.info(`Shiprocket: Return fulfillment ${fulfillment.id} registered, reverse pickup pending`);
 
         return {
             data: {
-                ...((fulfillment as object) || {}),
-                ...externalData,
+                ...((fulfillment.data as object) || {}),
+                is_return: true,
+                return_status: "pending",
+                qc_enable: shippingOption?.data?.qc_enable === true || shippingOption?.data?.qc_enable === "true",
             },
-            labels: [
-                {
-                    tracking_number: externalData.tracking_number || externalData.awb || "",
-                    tracking_url: externalData.tracking_url || "",
-                    label_url: externalData.label_url || "",
-                },
-            ],
+            labels: [],
         };
     }
 
     /**
-     * Retrieves the documents associated with a fulfillment.
+     * Returns the stored URL of a document, or generates it again when missing or stale.
+     * Regenerated URLs aren't persisted here; the provider has no access to the fulfillment module.
      */
-    async getFulfillmentDocuments(_data: Record<string, unknown>): Promise<never[]> {
-        // Shiprocket documents are fetched during fulfillment creation
-        return [];
+    private async resolveDocuments(
+        data: Record<string, any>,
+        types: ShiprocketDocumentType[]
+    ): Promise<ShiprocketDocument[]> {
+        if (!data?.shipment_id) {
+            return [];
+        }
+
+        const stale = areStoredDocumentsStale(data);
+        const urls: Partial<Record<ShiprocketDocumentType, string>> = {};
+        for (const type of types) {
+            const stored = type === "return_label" ? data.label_url : data[`${type}_url`];
+            if (stored && !stale) {
+                urls[type] = stored;
+            }
+        }
+
+        const missing = types.filter((type) => !urls[type]);
+        if (missing.length) {
+            this.logger_.debug(
+                `Shiprocket: Regenerating ${missing.join(", ")} for shipment ${data.shipment_id}`
+            );
+
+            if (missing.includes("label") && missing.includes("invoice")) {
+                const { label, invoice } = await this.client.createDocuments(data);
+                Object.assign(urls, { label, invoice });
+            }
+
+            const pending = missing.filter((type) => !urls[type]);
+            if (pending.length) {
+                const generators: Record<ShiprocketDocumentType, () => Promise<string>> = {
+                    label: () => this.client.generateLabel(data),
+                    return_label: () => this.client.generateLabel(data),
+                    invoice: () => this.client.generateInvoice(data),
+                    // Manifests are generated once a day per courier; only fetch an existing one
+                    manifest: () => this.client.printManifest([data.sr_order_id || data.order_id]),
+                };
+                const generated = await Promise.all(pending.map((type) => generators[type]()));
+                pending.forEach((type, index) => {
+                    urls[type] = generated[index];
+                });
+            }
+        }
+
+        const reference = data.awb || data.shipment_id;
+        return types
+            .filter((type) => !!urls[type])
+            .map((type) => toShiprocketDocument(type, urls[type] as string, reference));
     }
 
     /**
-     * Retrieves the documents associated with a shipment.
+     * Retrieves the documents associated with a fulfillment: label, invoice and manifest.
+     * The document methods resolve to `ShiprocketDocument`s; the base class types them as `never`.
      */
-    async getShipmentDocuments(_data: any): Promise<never[]> {
-        // Shiprocket documents are fetched during fulfillment creation
-        return [];
+    async getFulfillmentDocuments(data: Record<string, unknown>): Promise<any> {
+        return this.resolveDocuments(data, ["label", "invoice", "manifest"]);
     }
 
     /**
-     * Retrieves the documents associated with a return fulfillment.
+     * Retrieves the documents that travel with a shipment: label and invoice.
      */
-    async getReturnDocuments(_data: Record<string, unknown>): Promise<never[]> {
-        return [];
+    async getShipmentDocuments(data: Record<string, unknown>): Promise<any> {
+        return this.resolveDocuments(data, ["label", "invoice"]);
     }
 
     /**
-     * Retrieves the documents associated with a fulfillment by type.
+     * Retrieves the documents associated with a return fulfillment: the return label.
+     */
+    async getReturnDocuments(data: Record<string, unknown>): Promise<any> {
+        return this.resolveDocuments(data, ["return_label"]);
+    }
+
+    /**
+     * Retrieves a single document of a fulfillment by type.
+     * `return_label` expects the data of a return fulfillment.
      */
     async retrieveDocuments(
-        _fulfillmentData: Record<string, unknown>,
-        _documentType: string
-    ): Promise<void> {
-        this.logger_.debug("Shiprocket: Document retrieval by type not supported");
+        fulfillmentData: Record<string, unknown>,
+        documentType: string
+    ): Promise<any> {
+        if (!isShiprocketDocumentType(documentType)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `Unsupported Shiprocket document type '${documentType}'. ` +
+                `Expected one of: ${SHIPROCKET_DOCUMENT_TYPES.join(", ")}`
+            );
+        }
+
+        const [document] = await this.resolveDocuments(fulfillmentData, [documentType]);
+        if (!document) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `Shiprocket could not provide the ${documentType} for shipment ${fulfillmentData.shipment_id || "(none)"}`
+            );
+        }
+
+        return document;
     }
 
     /**
      * Validates the fulfillment data.
+     * Locks in the courier and the quoted price so the AWB is later assigned to the same courier,
+     * and carries the option's tier and courier rules over for AWB assignment, which falls back to
+     * another courier of the tier when the quoted one no longer serves the route. The raw courier
+     * rate is kept next to the quoted price for margin reporting.
      */
     async validateFulfillmentData(
-        _optionData: Record<string, unknown>,
+        optionData: Record<string, unknown>,
         data: Record<string, unknown>,
-        _context: Record<string, unknown>
+        context: Record<string, unknown>
     ): Promise<Record<string, unknown>> {
-        return {
+        const validated: Record<string, unknown> = {
             ...data,
             external_id: `shiprocket_${Date.now()}`,
         };
+
+        // Return options have no forward leg to quote
+        if (optionData?.is_return) {
+            return validated;
+        }
+
+        const fromLocation = context.from_location as { id?: string } | undefined;
+        const quote = await this.getQuote(optionData, data, context);
+        const { courier, pickup_location } = quote;
+        const price = this.priceQuote(optionData, context, quote);
+
+        return {
+            ...validated,
+            ...(fromLocation?.id && { pickup_location_id: fromLocation.id }),
+            pickup_location,
+            ...getCourierRules(optionData),
+            ...(optionData?.tier ? { tier: optionData.tier } : {}),
+            courier_id: courier.courier_company_id,
+            courier_name: courier.courier_name,
+            quoted_rate: price.amount,
+            courier_rate: price.courier_rate,
+            shipping_margin: price.margin,
+            ...(price.free_shipping && { free_shipping: true }),
+            quoted_at: new Date().toISOString(),
+        };
     }
 
     /**
      * Validates a fulfillment option.
      */
     async validateOption(data: Record<string, unknown>): Promise<boolean> {
-        return data.id === "shiprocket-standard" || data.id === "shiprocket-return" || data.external_id !== undefined;
+        const optionIds = (await this.getFulfillmentOptions()).map((option) => option.id);
+        return optionIds.includes(data.id as string) || data.external_id !== undefined;
     }
 }
 
@@ -0,0 +1,31 @@
+import { packUnits, PackageUnit } from "../packaging"
+
+function unit(weight: number): PackageUnit {
+    return { line_item_id: "item_1", title: "Dumbbell", weight, length: 10, breadth: 10, height: 10 }
+}
+
+describe("packUnits", () => {
+    const boxes = [
+        { id: "small", length: 20, breadth: 20, height: 20, tare_weight: 0.2, max_weight: 5 },
+        { id: "large", length: 40, breadth: 40, height: 40, tare_weight: 0.5, max_weight: 10 },
+    ]
+
+    it("splits heavy compact units across boxes by each box's max_weight", () => {
+        // Four 4 kg units fit in one large box by volume but weigh 16 kg
+        const packages = packUnits([unit(4), unit(4), unit(4), unit(4)], { boxes })
+
+        expect(packages).toHaveLength(2)
+        for (const pkg of packages) {
+            expect(pkg.items).toEqual([{ line_item_id: "item_1", title: "Dumbbell", quantity: 2 }])
+            expect(pkg.weight - 0.5).toBeLessThanOrEqual(10)
+        }
+    })
+
+    it("keeps the package weight cap, tare weight included", () => {
+        // Two 2 kg units and the small box's 0.2 kg tare stay under 4.5 kg, a third would not
+        const packages = packUnits([unit(2), unit(2), unit(2)], { boxes, maxWeight: 4.5 })
+
+        expect(packages.map((pkg) => pkg.weight)).toEqual([4.2, 2.2])
+        expect(packages.every((pkg) => pkg.weight <= 4.5)).toBe(true)
+    })
+})
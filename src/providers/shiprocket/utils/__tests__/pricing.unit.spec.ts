@@ -0,0 +1,42 @@
+import { applyPricingRules } from "../pricing"
+
+describe("applyPricingRules", () => {
+    const rules = {
+        markup_percent: 10,
+        handling_fee: 20,
+        weight_slabs: [
+            { max_weight: 0.5, amount: 49 },
+            { max_weight: 2, amount: 89 },
+        ],
+        round_to: 5,
+    }
+
+    it("charges a weight slab's fixed price without markup, handling fee or rounding", () => {
+        const price = applyPricingRules(120, { subtotal: 500, weight: 1.2 }, rules)
+
+        expect(price).toEqual({
+            amount: 89,
+            courier_rate: 120,
+            margin: -31,
+            free_shipping: false,
+            weight_slab: { max_weight: 2, amount: 89 },
+        })
+    })
+
+    it("applies markup, handling fee and rounding to the courier rate above the slabs", () => {
+        const price = applyPricingRules(120, { subtotal: 500, weight: 3 }, rules)
+
+        // 120 + 10% = 132, + 20 = 152, rounded to 150
+        expect(price.amount).toBe(150)
+        expect(price.weight_slab).toBeUndefined()
+    })
+
+    it("ships for free from the threshold, before any slab", () => {
+        const price = applyPricingRules(120, { subtotal: 1000, weight: 0.4 }, {
+            ...rules,
+            free_shipping_threshold: 999,
+        })
+
+        expect(price).toMatchObject({ amount: 0, free_shipping: true })
+    })
+})
@@ -0,0 +1,109 @@
+/**
+ * Shipping document utilities
+ * Tracks the label, invoice and manifest URLs stored in a fulfillment's `data`
+ */
+
+export type ShiprocketDocumentType = "label" | "invoice" | "manifest" | "return_label"
+
+export type ShiprocketDocument = {
+    type: ShiprocketDocumentType
+    url: string
+    name: string
+    mime_type: string
+}
+
+export const SHIPROCKET_DOCUMENT_TYPES: ShiprocketDocumentType[] = ["label", "invoice", "manifest", "return_label"]
+
+/**
+ * Stored document URLs older than this are regenerated. Shiprocket keeps the files around
+ * for a while, but regenerating is cheap and picks up edits made in the Shiprocket panel.
+ */
+export const DOCUMENT_URL_TTL_MS = 24 * 60 * 60 * 1000
+
+export type StoredDocumentUrls = {
+    label_url?: string
+    invoice_url?: string
+    manifest_url?: string
+}
+
+/**
+ * A Medusa fulfillment label entry
+ */
+export type ShipmentLabel = {
+    tracking_number: string
+    tracking_url: string
+    label_url: string
+}
+
+/**
+ * Fulfillment labels of a shipment from its `data`: one per package AWB for multi-package
+ * shipments, packages without a label of their own getting the shipment label, else one for
+ * the shipment AWB when a label exists.
+ */
+export function shipmentLabels(data: Record<string, any>, labelUrl?: string | null): ShipmentLabel[] {
+    const label = labelUrl || data.label_url || ""
+    if (data.is_mps && Array.isArray(data.packages) && data.packages.length) {
+        return data.packages.map((pkg: any) => ({
+            tracking_number: pkg.awb || data.awb || "",
+            tracking_url: pkg.tracking_url || data.tracking_url || "",
+            label_url: pkg.label_url || label,
+        }))
+    }
+    return label ? [{
+        tracking_number: data.tracking_number || data.awb || "",
+        tracking_url: data.tracking_url || "",
+        label_url: label,
+    }] : []
+}
+
+export function isShiprocketDocumentType(value: unknown): value is ShiprocketDocumentType {
+    return SHIPROCKET_DOCUMENT_TYPES.includes(value as ShiprocketDocumentType)
+}
+
+/**
+ * Fields to merge into a fulfillment's `data` after generating documents.
+ * Empty URLs are left out so a failed regeneration doesn't wipe a working link.
+ */
+export function documentUrlsData(
+    urls: StoredDocumentUrls,
+    awb?: string | null
+): Record<string, unknown> {
+    const stored: Record<string, unknown> = {}
+    for (const [key, url] of Object.entries(urls)) {
+        if (url) stored[key] = url
+    }
+    if (Object.keys(stored).length) {
+        stored.documents_generated_at = new Date().toISOString()
+        stored.documents_awb = awb || null
+    }
+    return stored
+}
+
+/**
+ * Whether the document URLs stored in fulfillment data can no longer be trusted:
+ * they were generated for another AWB (the courier was reassigned) or are past the TTL.
+ * Data written before the timestamps were recorded is considered fresh.
+ */
+export function areStoredDocumentsStale(data: Record<string, any>, now: Date = new Date()): boolean {
+    if (data.documents_awb !== undefined && data.awb && data.documents_awb !== data.awb) {
+        return true
+    }
+    if (!data.documents_generated_at) {
+        return false
+    }
+    const generatedAt = new Date(data.documents_generated_at).getTime()
+    return isNaN(generatedAt) || now.getTime() - generatedAt > DOCUMENT_URL_TTL_MS
+}
+
+export function toShiprocketDocument(
+    type: ShiprocketDocumentType,
+    url: string,
+    reference?: string | number
+): ShiprocketDocument {
+    return {
+        type,
+        url,
+        name: reference ? `${type}-${reference}.pdf` : `${type}.pdf`,
+        mime_type: "application/pdf",
+    }
+}
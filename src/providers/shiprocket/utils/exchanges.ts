@@ -0,0 +1,83 @@
+/**
+ * Exchange utilities for Shiprocket
+ * Decides when the replacement of an order exchange ships, based on its reverse pickup
+ */
+
+import { isStatusIn } from "../../../modules/shiprocket-tracking/statuses"
+
+/**
+ * When the replacement of an exchange ships:
+ * - none: right away
+ * - picked_up: once the courier has picked the returned item up
+ * - qc_passed: once the returned item passed the courier's doorstep QC,
+ *   or reached the warehouse when the return has no QC
+ */
+export type ExchangeHold = "none" | "picked_up" | "qc_passed"
+
+export type ExchangeReverseStatus = "pending" | "picked_up" | "delivered" | "qc_failed" | "canceled"
+
+export const EXCHANGE_HOLDS: ExchangeHold[] = ["none", "picked_up", "qc_passed"]
+
+/**
+ * Order metadata key mapping the line items of exchange replacements to their exchange.
+ * Written when an exchange is created, so the provider can tag and hold their fulfillments.
+ */
+export const SHIPROCKET_EXCHANGE_METADATA_KEY = "shiprocket_exchange_items"
+
+export type ExchangeItemRef = {
+    exchange_id: string
+    /** Hold the AWB until the reverse leg allows the replacement to ship */
+    hold: boolean
+}
+
+export function isExchangeHold(value: unknown): value is ExchangeHold {
+    return EXCHANGE_HOLDS.includes(value as ExchangeHold)
+}
+
+/**
+ * Default hold for new exchanges, from SHIPROCKET_EXCHANGE_HOLD (default "none")
+ */
+export function getExchangeHold(): ExchangeHold {
+    const hold = (process.env.SHIPROCKET_EXCHANGE_HOLD || "none").trim().toLowerCase()
+    return isExchangeHold(hold) ? hold : "none"
+}
+
+/**
+ * Exchange a fulfillment belongs to when it ships exchange replacements
+ */
+export function getExchangeForItems(
+    order: any,
+    items: { line_item_id?: string | null }[]
+): ExchangeItemRef | undefined {
+    const exchangeItems = (order?.metadata?.[SHIPROCKET_EXCHANGE_METADATA_KEY] || {}) as Record<string, ExchangeItemRef>
+    for (const item of items) {
+        if (item.line_item_id && exchangeItems[item.line_item_id]?.exchange_id) {
+            return exchangeItems[item.line_item_id]
+        }
+    }
+    return undefined
+}
+
+/**
+ * Reverse leg progress from a Shiprocket tracking update, or null when it doesn't change it
+ */
+export function reverseStatusFromTracking(statusId?: number | null, status?: string | null): ExchangeReverseStatus | null {
+    const label = String(status || "").toUpperCase()
+
+    if (/QC\s*FAIL/.test(label)) return "qc_failed"
+    if (isStatusIn(statusId, status, ["cancelled"])) return "canceled"
+    if (isStatusIn(statusId, status, ["delivered"])) return "delivered"
+    if (isStatusIn(statusId, status, ["in_transit", "out_for_delivery"])) return "picked_up"
+    return null
+}
+
+/**
+ * Whether the replacement can ship given the reverse leg's progress.
+ * With doorstep QC the courier only picks up items that pass, so a pickup means QC passed.
+ */
+export function isExchangeReleased(hold: ExchangeHold, reverseStatus: ExchangeReverseStatus, qcEnabled: boolean): boolean {
+    if (hold === "none") return true
+    if (reverseStatus === "qc_failed" || reverseStatus === "canceled" || reverseStatus === "pending") return false
+    if (hold === "picked_up") return true
+    return qcEnabled || reverseStatus === "delivered"
+}
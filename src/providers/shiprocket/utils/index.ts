@@ -1,4 +1,12 @@
+import { MedusaError } from "@medusajs/utils";
 import { Courier } from "../types";
+import type { ShiprocketCourierCompany } from "../client/types";
+
+/**
+ * Service tier of a shipping option: "express" ships by air (fastest),
+ * "economy" by surface (cheapest) and "standard" takes the cheapest courier overall.
+ */
+export type CourierTier = "standard" | "express" | "economy";
 
 export function getCheapestCourier(couriers: Courier[]): Courier | null {
     const validCouriers = couriers.filter(
@@ -12,15 +20,117 @@ export function getCheapestCourier(couriers: Courier[]): Courier | null {
     });
 }
 
-export function filterAllowedCouriers(
-    couriers: Courier[],
-    allowedCourierIds: string[]
-): Courier[] {
+/**
+ * Courier allow/deny lists of a shipping option, configured in the option `data`
+ */
+export type CourierRules = {
+    allowed_courier_ids?: number[];
+    blocked_courier_ids?: number[];
+};
+
+export function filterAllowedCouriers<T extends Courier>(
+    couriers: T[],
+    allowedCourierIds: (number | string)[]
+): T[] {
+    const allowed = allowedCourierIds.map(Number);
+    return couriers.filter((courier) =>
+        allowed.includes(Number(courier.courier_company_id))
+    );
+}
+
+export function filterBlockedCouriers<T extends Courier>(
+    couriers: T[],
+    blockedCourierIds: (number | string)[]
+): T[] {
+    const blocked = blockedCourierIds.map(Number);
     return couriers.filter((courier) =>
-        allowedCourierIds.includes(courier.courier_company_id)
+        !blocked.includes(Number(courier.courier_company_id))
     );
 }
 
+/**
+ * Apply a shipping option's allow list, then its block list.
+ */
+export function applyCourierRules<T extends Courier>(couriers: T[], rules: CourierRules = {}): T[] {
+    let result = couriers;
+    if (rules.allowed_courier_ids?.length) {
+        result = filterAllowedCouriers(result, rules.allowed_courier_ids);
+    }
+    if (rules.blocked_courier_ids?.length) {
+        result = filterBlockedCouriers(result, rules.blocked_courier_ids);
+    }
+    return result;
+}
+
+/**
+ * Read courier rules from shipping option or shipping method data.
+ * Accepts arrays of ids or comma separated strings.
+ */
+export function getCourierRules(data?: Record<string, unknown> | null): CourierRules {
+    const toIds = (value: unknown): number[] | undefined => {
+        if (value === undefined || value === null || value === "") return undefined;
+        const list = Array.isArray(value) ? value : String(value).split(",");
+        const ids = list.map((v) => Number(String(v).trim())).filter((id) => !isNaN(id) && id > 0);
+        return ids.length ? ids : undefined;
+    };
+
+    const rules: CourierRules = {};
+    const allowed = toIds(data?.allowed_courier_ids);
+    const blocked = toIds(data?.blocked_courier_ids);
+    if (allowed) rules.allowed_courier_ids = allowed;
+    if (blocked) rules.blocked_courier_ids = blocked;
+    return rules;
+}
+
+/**
+ * Pick the courier for a shipment from the serviceable couriers on a route.
+ * @param couriers - Couriers returned by Shiprocket serviceability
+ * @param selection - Courier explicitly chosen by the customer, or the service tier of the shipping option
+ * @throws MedusaError if the chosen courier or tier is not available on this route
+ */
+export function selectCourier(
+    couriers: ShiprocketCourierCompany[],
+    selection: { courier_id?: number | string | null; tier?: CourierTier } = {}
+): ShiprocketCourierCompany {
+    const priced = couriers.filter((c) => !isNaN(Number(c.rate)));
+    const byRate = (a: ShiprocketCourierCompany, b: ShiprocketCourierCompany) =>
+        Number(a.rate) - Number(b.rate);
+    const byDays = (a: ShiprocketCourierCompany, b: ShiprocketCourierCompany) =>
+        (parseInt(a.estimated_delivery_days) || 99) - (parseInt(b.estimated_delivery_days) || 99) ||
+        byRate(a, b);
+
+    if (selection.courier_id) {
+        const chosen = priced.find(
+            (c) => Number(c.courier_company_id) === Number(selection.courier_id)
+        );
+        if (!chosen) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `Selected courier ${selection.courier_id} is not available for this route`
+            );
+        }
+        return chosen;
+    }
+
+    let candidates = priced;
+    let sort = byRate;
+    if (selection.tier === "express") {
+        candidates = priced.filter((c) => !c.is_surface);
+        sort = byDays;
+    } else if (selection.tier === "economy") {
+        candidates = priced.filter((c) => c.is_surface);
+    }
+
+    if (!candidates.length) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `No ${selection.tier || "standard"} couriers available for this route`
+        );
+    }
+
+    return [...candidates].sort(sort)[0];
+}
+
 export function slugify(str: string) {
     return str
         .toLowerCase()
@@ -30,5 +140,28 @@ export function slugify(str: string) {
         .replace(/-+/g, '-');
 }
 
+// Shiprocket limits pickup location nicknames to 36 characters
+const MAX_PICKUP_NICKNAME_LENGTH = 36;
+
+/**
+ * Shiprocket pickup location nickname created for a stock location name
+ */
+export function pickupNickname(name: string): string {
+    return slugify(name).slice(0, MAX_PICKUP_NICKNAME_LENGTH);
+}
+
 // Export validation utilities
-export { validateAndSanitizePhone, validateAndSanitizePincode, requireField } from './validation'
\ No newline at end of file
+export {
+    validateAndSanitizePhone,
+    validateAndSanitizePincode,
+    validateAndSanitizeE164Phone,
+    validateAndSanitizePostcode,
+    isDomesticCountry,
+    requireField,
+} from './validation'
+
+// Export payment utilities
+export { resolveShipmentPayment, getCodPayment, getCodPaymentProviders, SHIPROCKET_COD_METADATA_KEY } from './payment'
+
+// Export pricing utilities
+export { applyPricingRules, getPricingRules } from './pricing'
@@ -0,0 +1,136 @@
+/**
+ * Invoice utilities for Shiprocket shipments
+ * Builds GST-compliant line items and order-level charges from a Medusa order
+ */
+
+export type ShiprocketOrderItem = {
+    name: string
+    sku: string
+    units: number
+    /** Unit price inclusive of tax */
+    selling_price: number
+    /** Discount on the line (all units) */
+    discount: number
+    /** Total GST rate in percent, e.g. 18 */
+    tax: number
+    hsn?: string
+}
+
+export type ShipmentInvoice = {
+    order_items: ShiprocketOrderItem[]
+    /** Sum of selling_price * units, before discounts */
+    sub_total: number
+    shipping_charges: number
+    giftwrap_charges: number
+    total_discount: number
+    /** sub_total + shipping + gift wrap - discounts */
+    total: number
+}
+
+/**
+ * Order metadata key for gift wrap charges, Medusa has no native field for them
+ */
+export const GIFTWRAP_CHARGES_METADATA_KEY = "giftwrap_charges"
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+/**
+ * Combined tax rate of an order line item, e.g. CGST 9% + SGST 9% = 18
+ */
+export function getItemTaxRate(orderItem: any): number {
+    const lines = (orderItem?.tax_lines || []) as { rate?: number }[]
+    return round(lines.reduce((sum, line) => sum + Number(line?.rate || 0), 0))
+}
+
+/**
+ * HSN code of an item: variant first, then product. Digits only, as Shiprocket expects.
+ */
+export function getItemHsnCode(orderItem: any): string | undefined {
+    const raw = orderItem?.variant?.hs_code || orderItem?.variant?.product?.hs_code
+    const digits = raw ? String(raw).replace(/\D/g, "") : ""
+    return digits || undefined
+}
+
+/**
+ * Country of manufacture of an item for customs: variant first, then product, defaulting to India
+ */
+export function getItemOriginCountry(orderItem: any): string {
+    const country = orderItem?.variant?.origin_country || orderItem?.variant?.product?.origin_country
+    return (country || "IN").toUpperCase()
+}
+
+/**
+ * Build Shiprocket invoice lines for the items of a fulfillment.
+ *
+ * Unit prices are sent tax inclusive with the item's GST rate, so Shiprocket can back out
+ * the taxable value. Item discounts come from the line item's `discount_total`; when the order
+ * only has an order-level `discount_total`, it is allocated across lines by value. Shipping
+ * charges, gift wrap and order-level discounts are allocated to this fulfillment by the share
+ * of the order's item value it ships, so partial fulfillments add up to the order.
+ */
+export function buildShipmentInvoice(
+    items: any[],
+    orderItemMap: Map<string, any>,
+    order: any
+): ShipmentInvoice {
+    const lines = items.map((item) => {
+        const orderItem = orderItemMap.get(item.line_item_id)
+        const variant = orderItem?.variant || {}
+        const units = Number(item.quantity || item.raw_quantity?.value || 1)
+        const orderedUnits = Number(orderItem?.quantity || units) || units
+        const tax = getItemTaxRate(orderItem)
+
+        const unitPrice = Number(orderItem?.unit_price || orderItem?.detail?.unit_price || 0)
+        const sellingPrice = orderItem?.is_tax_inclusive
+            ? unitPrice
+            : unitPrice * (1 + tax / 100)
+
+        const itemDiscount = orderItem?.discount_total !== undefined && orderItem?.discount_total !== null
+            ? Number(orderItem.discount_total) * units / orderedUnits
+            : undefined
+
+        return {
+            item: {
+                name: item.title,
+                sku: variant.sku || orderItem?.variant_sku || item.sku || item.id,
+                units,
+                selling_price: round(sellingPrice),
+                tax,
+                hsn: getItemHsnCode(orderItem),
+            },
+            itemDiscount,
+            value: round(sellingPrice) * units,
+        }
+    })
+
+    const subTotal = round(lines.reduce((sum, line) => sum + line.value, 0))
+
+    // Share of the order's item value shipped in this fulfillment
+    const orderItemTotal = Number(order?.item_total ?? order?.subtotal ?? 0)
+    const share = orderItemTotal > 0 ? Math.min(1, subTotal / orderItemTotal) : 1
+
+    const hasItemDiscounts = lines.some((line) => line.itemDiscount !== undefined)
+    const orderDiscount = Number(order?.discount_total || 0) * share
+
+    const orderItems: ShiprocketOrderItem[] = lines.map((line) => {
+        const discount = hasItemDiscounts
+            ? line.itemDiscount || 0
+            : subTotal > 0 ? orderDiscount * line.value / subTotal : 0
+        return { ...line.item, discount: round(discount) }
+    })
+
+    const totalDiscount = round(orderItems.reduce((sum, item) => sum + item.discount, 0))
+    const shippingCharges = round(Number(order?.shipping_total || 0) * share)
+    const giftwrapCharges = round(Number(order?.metadata?.[GIFTWRAP_CHARGES_METADATA_KEY] || 0) * share)
+
+    return {
+        order_items: orderItems,
+        sub_total: subTotal,
+        shipping_charges: shippingCharges,
+        giftwrap_charges: giftwrapCharges,
+        total_discount: totalDiscount,
+        total: round(subTotal + shippingCharges + giftwrapCharges - totalDiscount),
+    }
+}
@@ -0,0 +1,103 @@
+import { MedusaError } from "@medusajs/utils"
+import { PDFDocument } from "pdf-lib"
+
+/**
+ * Label printing utilities
+ * Lays out the labels of a bulk Shiprocket label PDF for the warehouse printer
+ */
+
+/**
+ * "4x6" prints one label per 4x6 inch page for thermal printers,
+ * "a4" tiles four labels on each A4 sheet
+ */
+export type LabelFormat = "a4" | "4x6"
+
+export const LABEL_FORMATS: LabelFormat[] = ["a4", "4x6"]
+
+/** Page sizes in PDF points (1/72 inch) */
+const THERMAL_PAGE: [number, number] = [288, 432]
+const A4_PAGE: [number, number] = [595.28, 841.89]
+const A4_MARGIN = 18
+const A4_COLUMNS = 2
+const A4_ROWS = 2
+
+export type LabelSortable = {
+    pickup_location?: string | null
+    courier_name?: string | null
+}
+
+export function isLabelFormat(value: unknown): value is LabelFormat {
+    return LABEL_FORMATS.includes(value as LabelFormat)
+}
+
+/**
+ * Order shipments for picking: by pickup location, then courier, so each courier's
+ * parcels come off the printer together
+ */
+export function compareForLabels(a: LabelSortable, b: LabelSortable): number {
+    return (a.pickup_location || "").localeCompare(b.pickup_location || "") ||
+        (a.courier_name || "").localeCompare(b.courier_name || "")
+}
+
+/**
+ * Fit a box of width x height into another, keeping the aspect ratio
+ */
+function fit(width: number, height: number, maxWidth: number, maxHeight: number) {
+    const scale = Math.min(maxWidth / width, maxHeight / height)
+    return { width: width * scale, height: height * scale }
+}
+
+/**
+ * Re-layout a Shiprocket label PDF, one label per source page, in the requested format.
+ * Page order is kept, so labels print in the order the shipments were sent to Shiprocket.
+ */
+export async function layoutLabels(source: Uint8Array, format: LabelFormat): Promise<Uint8Array> {
+    let sourceDoc: PDFDocument
+    try {
+        sourceDoc = await PDFDocument.load(source)
+    } catch (error: any) {
+        throw new MedusaError(
+            MedusaError.Types.UNEXPECTED_STATE,
+            `Shiprocket returned an unreadable label PDF: ${error.message}`
+        )
+    }
+
+    const output = await PDFDocument.create()
+    const labels = await output.embedPages(sourceDoc.getPages())
+
+    if (format === "4x6") {
+        for (const label of labels) {
+            const page = output.addPage(THERMAL_PAGE)
+            const size = fit(label.width, label.height, THERMAL_PAGE[0], THERMAL_PAGE[1])
+            page.drawPage(label, {
+                x: (THERMAL_PAGE[0] - size.width) / 2,
+                y: (THERMAL_PAGE[1] - size.height) / 2,
+                ...size,
+            })
+        }
+        return output.save()
+    }
+
+    const cellWidth = (A4_PAGE[0] - A4_MARGIN * 2) / A4_COLUMNS
+    const cellHeight = (A4_PAGE[1] - A4_MARGIN * 2) / A4_ROWS
+    const perPage = A4_COLUMNS * A4_ROWS
+
+    labels.forEach((label, index) => {
+        const page = index % perPage === 0
+            ? output.addPage(A4_PAGE)
+            : output.getPage(output.getPageCount() - 1)
+        const slot = index % perPage
+        const column = slot % A4_COLUMNS
+        const row = Math.floor(slot / A4_COLUMNS)
+        const size = fit(label.width, label.height, cellWidth, cellHeight)
+
+        // PDF coordinates start at the bottom left; fill rows from the top
+        page.drawPage(label, {
+            x: A4_MARGIN + column * cellWidth + (cellWidth - size.width) / 2,
+            y: A4_PAGE[1] - A4_MARGIN - (row + 1) * cellHeight + (cellHeight - size.height) / 2,
+            ...size,
+        })
+    })
+
+    return output.save()
+}
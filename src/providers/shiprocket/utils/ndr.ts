@@ -0,0 +1,106 @@
+/**
+ * NDR (non-delivery report) utilities for Shiprocket
+ * Detects failed delivery attempts in tracking updates and validates the actions taken on them
+ */
+
+import { isStatusIn, NormalizedStatus } from "../../../modules/shiprocket-tracking/statuses"
+
+/**
+ * State of the failed delivery attempts of a shipment, stored on its tracking record
+ * - open: the courier couldn't deliver and waits for an action
+ * - reattempt_requested: a new delivery attempt was requested
+ * - rto_requested: the shipment was asked to return to origin
+ * - closed: the shipment was delivered, returned or cancelled afterwards
+ */
+export type NdrStatus = "open" | "reattempt_requested" | "rto_requested" | "closed"
+
+export type NdrActionType = "reattempt" | "rto"
+
+export const NDR_ACTION_TYPES: NdrActionType[] = ["reattempt", "rto"]
+
+/**
+ * An action taken on an NDR, kept in the tracking record `ndr_actions`
+ */
+export type NdrAction = {
+    action: NdrActionType
+    requested_at: string
+    requested_by: "admin" | "customer"
+    /** Date of the new delivery attempt, YYYY-MM-DD */
+    proposed_date?: string
+    address_1?: string
+    address_2?: string
+    phone?: string
+    comments?: string
+}
+
+export type NdrDetails = {
+    attempts: number
+    reason?: string
+    last_attempt_at?: Date
+}
+
+// No further delivery attempt once the shipment reaches one of these
+const NDR_CLOSING_STATUSES: NormalizedStatus[] = ["delivered", "rto", "cancelled", "lost"]
+
+/**
+ * Couriers may propose a re-attempt at most this many days ahead
+ */
+export const NDR_MAX_REATTEMPT_DAYS = 7
+
+function isUndeliveredScan(scan: any): boolean {
+    return isStatusIn(scan?.["sr-status"], scan?.["sr-status-label"] || scan?.status, ["ndr"])
+}
+
+/**
+ * Failed delivery attempts of a shipment from a tracking update, or null when the shipment
+ * isn't undelivered. Attempts are counted from the undelivered scans, at least one.
+ */
+export function getNdrDetails(
+    statusId?: number | null,
+    status?: string | null,
+    scans: any[] = []
+): NdrDetails | null {
+    if (!isStatusIn(statusId, status, ["ndr"])) {
+        return null
+    }
+
+    const undelivered = (scans || []).filter(isUndeliveredScan)
+    const latest = [...undelivered].sort((a, b) =>
+        new Date(b?.date || 0).getTime() - new Date(a?.date || 0).getTime()
+    )[0]
+    const lastAttemptAt = latest?.date ? new Date(latest.date) : undefined
+
+    return {
+        attempts: Math.max(undelivered.length, 1),
+        reason: latest?.activity || latest?.status || status || undefined,
+        last_attempt_at: lastAttemptAt && !isNaN(lastAttemptAt.getTime()) ? lastAttemptAt : undefined,
+    }
+}
+
+/**
+ * Whether a tracking update ends the shipment's NDR: delivered, returned, cancelled or lost
+ */
+export function isNdrClosingStatus(statusId?: number | null, status?: string | null): boolean {
+    return isStatusIn(statusId, status, NDR_CLOSING_STATUSES)
+}
+
+export function isNdrActionType(value: unknown): value is NdrActionType {
+    return NDR_ACTION_TYPES.includes(value as NdrActionType)
+}
+
+/**
+ * Validate a re-attempt date: YYYY-MM-DD, from tomorrow up to NDR_MAX_REATTEMPT_DAYS ahead
+ */
+export function validateReattemptDate(date: string, today: Date = new Date()): string | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return "proposed_date must be YYYY-MM-DD"
+    }
+
+    const proposed = new Date(`${date}T00:00:00Z`)
+    const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())
+    const days = Math.round((proposed.getTime() - start) / (24 * 60 * 60 * 1000))
+    if (isNaN(days) || days < 1 || days > NDR_MAX_REATTEMPT_DAYS) {
+        return `proposed_date must be between tomorrow and ${NDR_MAX_REATTEMPT_DAYS} days ahead`
+    }
+    return null
+}
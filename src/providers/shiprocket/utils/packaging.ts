@@ -0,0 +1,316 @@
+/**
+ * Packaging utilities for Shiprocket shipments
+ * Splits fulfillment items into one or more physical packages
+ */
+
+/**
+ * A single physical unit of a fulfillment item (quantity already expanded)
+ */
+export type PackageUnit = {
+    line_item_id: string
+    title: string
+    weight: number // kg
+    length: number // cm
+    breadth: number // cm
+    height: number // cm
+}
+
+export type PackageItem = {
+    line_item_id: string
+    title: string
+    quantity: number
+}
+
+/**
+ * A carton from the merchant's box catalog (configured in provider options)
+ */
+export type ShippingBox = {
+    id: string
+    name?: string
+    /** Inner dimensions in cm */
+    length: number
+    breadth: number
+    height: number
+    /** Weight of the empty box in kg */
+    tare_weight?: number
+    /** Maximum content weight in kg */
+    max_weight?: number
+}
+
+export type ShipmentPackage = {
+    length: number
+    breadth: number
+    height: number
+    weight: number
+    items: PackageItem[]
+    /** Box from the catalog this package should be packed in, if any */
+    box_id?: string
+    box_name?: string
+}
+
+export type PackUnitsOptions = {
+    /**
+     * Maximum dead weight (kg) of a single package.
+     * When omitted, everything ships in one package.
+     */
+    maxWeight?: number
+    /**
+     * Box catalog. When provided, units are bin-packed into the smallest fitting boxes.
+     */
+    boxes?: ShippingBox[]
+}
+
+/**
+ * Weight (kg) and dimensions (cm) of a single unit
+ */
+export type UnitDimensions = {
+    weight: number
+    length: number
+    breadth: number
+    height: number
+}
+
+/**
+ * What to do when a variant has no weight or dimensions:
+ * - fail: reject with an error
+ * - warn: log a warning and use the default dimensions
+ * - default: use the default dimensions silently
+ */
+export type MissingDimensionsPolicy = "fail" | "warn" | "default"
+
+export const DEFAULT_UNIT_DIMENSIONS: UnitDimensions = {
+    weight: 0.5,
+    length: 10,
+    breadth: 10,
+    height: 10,
+}
+
+/**
+ * Shiprocket's volumetric divisor: L x B x H (cm) / 5000 = volumetric weight (kg)
+ */
+export const VOLUMETRIC_DIVISOR = 5000
+
+/**
+ * Read weight and dimensions from a variant, falling back to its product.
+ * Medusa stores weight in grams; Shiprocket wants kg.
+ * Missing values are returned as 0.
+ */
+export function getVariantDimensions(variant: any): UnitDimensions {
+    const product = variant?.product
+    return {
+        weight: Number(variant?.weight || product?.weight || 0) / 1000,
+        length: Number(variant?.length || product?.length || 0),
+        breadth: Number(variant?.width || product?.width || 0),
+        height: Number(variant?.height || product?.height || 0),
+    }
+}
+
+export function hasAllDimensions(dims: UnitDimensions): boolean {
+    return !!(dims.weight && dims.length && dims.breadth && dims.height)
+}
+
+/**
+ * Fill in missing weight/dimensions from the defaults
+ */
+export function withDefaultDimensions(
+    dims: UnitDimensions,
+    defaults: UnitDimensions = DEFAULT_UNIT_DIMENSIONS
+): UnitDimensions {
+    return {
+        weight: dims.weight || defaults.weight,
+        length: dims.length || defaults.length,
+        breadth: dims.breadth || defaults.breadth,
+        height: dims.height || defaults.height,
+    }
+}
+
+export function volumetricWeight(dims: { length: number; breadth: number; height: number }): number {
+    return round(volume(dims) / VOLUMETRIC_DIVISOR)
+}
+
+/**
+ * Weight the courier bills on: the sum of max(dead, volumetric) over all packages
+ */
+export function chargeableWeight(packages: ShipmentPackage[]): number {
+    return round(packages.reduce((sum, pkg) => sum + Math.max(pkg.weight, volumetricWeight(pkg)), 0))
+}
+
+/**
+ * Round a dimension/weight to 2 decimals to avoid floating point noise in API payloads
+ */
+function round(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+function volume(dims: { length: number; breadth: number; height: number }): number {
+    return dims.length * dims.breadth * dims.height
+}
+
+/**
+ * Whether a unit fits inside a box in any orientation
+ */
+function fitsInBox(unit: PackageUnit, box: ShippingBox): boolean {
+    const u = [unit.length, unit.breadth, unit.height].sort((a, b) => a - b)
+    const b = [box.length, box.breadth, box.height].sort((a, b) => a - b)
+    return u[0] <= b[0] && u[1] <= b[1] && u[2] <= b[2]
+}
+
+/**
+ * Content weight limit of a box, honouring the global package weight cap
+ */
+function boxWeightLimit(box: ShippingBox, maxWeight?: number): number {
+    const boxLimit = box.max_weight && box.max_weight > 0 ? box.max_weight : Infinity
+    const packageLimit = maxWeight && maxWeight > 0
+        ? maxWeight - (box.tare_weight || 0)
+        : Infinity
+    return Math.min(boxLimit, packageLimit)
+}
+
+/**
+ * Whether a unit can go into a box on top of the units already packed in it: the content
+ * weight with the unit stays within the box's `max_weight` (and the package weight cap),
+ * every unit fits individually and the total volume stays within the box volume.
+ */
+function canHold(box: ShippingBox, packed: PackageUnit[], unit: PackageUnit, maxWeight?: number): boolean {
+    const currentWeight = packed.reduce((sum, u) => sum + u.weight, 0)
+    if (currentWeight + unit.weight > boxWeightLimit(box, maxWeight)) {
+        return false
+    }
+
+    const units = [...packed, unit]
+    const used = units.reduce((sum, u) => sum + volume(u), 0)
+    return units.every((u) => fitsInBox(u, box)) && used <= volume(box)
+}
+
+function groupItems(units: PackageUnit[]): PackageItem[] {
+    const items = new Map<string, PackageItem>()
+    for (const unit of units) {
+        const existing = items.get(unit.line_item_id)
+        if (existing) {
+            existing.quantity += 1
+        } else {
+            items.set(unit.line_item_id, {
+                line_item_id: unit.line_item_id,
+                title: unit.title,
+                quantity: 1,
+            })
+        }
+    }
+    return [...items.values()]
+}
+
+/**
+ * Build a package from a set of units by stacking them:
+ * max length, max breadth and summed height.
+ */
+function stackUnits(units: PackageUnit[]): ShipmentPackage {
+    let weight = 0
+    let length = 0
+    let breadth = 0
+    let height = 0
+
+    for (const unit of units) {
+        weight += unit.weight
+        length = Math.max(length, unit.length)
+        breadth = Math.max(breadth, unit.breadth)
+        height += unit.height
+    }
+
+    return {
+        length: round(length),
+        breadth: round(breadth),
+        height: round(height),
+        weight: round(weight),
+        items: groupItems(units),
+    }
+}
+
+/**
+ * Build a package for units packed in a catalog box: box dimensions, content weight plus tare.
+ */
+function boxPackage(box: ShippingBox, units: PackageUnit[]): ShipmentPackage {
+    const weight = units.reduce((sum, u) => sum + u.weight, 0) + (box.tare_weight || 0)
+    return {
+        length: round(box.length),
+        breadth: round(box.breadth),
+        height: round(box.height),
+        weight: round(weight),
+        items: groupItems(units),
+        box_id: box.id,
+        box_name: box.name || box.id,
+    }
+}
+
+/**
+ * Bin-pack units into catalog boxes.
+ *
+ * Units are placed largest-first into the first open box with room left; a new box
+ * (the largest one that fits the unit) is opened when none has room. Each filled box
+ * is then shrunk to the smallest box in the catalog that still holds its contents.
+ * Units that fit no box at all ship on their own with their own dimensions.
+ */
+function packIntoBoxes(units: PackageUnit[], boxes: ShippingBox[], maxWeight?: number): ShipmentPackage[] {
+    const bySize = [...boxes].sort((a, b) => volume(a) - volume(b))
+    const sorted = [...units].sort((a, b) => volume(b) - volume(a) || b.weight - a.weight)
+
+    const bins: { box: ShippingBox; units: PackageUnit[] }[] = []
+    const oversized: ShipmentPackage[] = []
+
+    for (const unit of sorted) {
+        const bin = bins.find((b) => canHold(b.box, b.units, unit, maxWeight))
+        if (bin) {
+            bin.units.push(unit)
+            continue
+        }
+
+        const largest = [...bySize].reverse().find((box) => canHold(box, [], unit, maxWeight))
+        if (largest) {
+            bins.push({ box: largest, units: [unit] })
+        } else {
+            oversized.push(stackUnits([unit]))
+        }
+    }
+
+    const packed = bins.map((bin) => {
+        const [first, ...rest] = bin.units
+        const smallest = bySize.find((box) => canHold(box, rest, first, maxWeight)) || bin.box
+        return boxPackage(smallest, bin.units)
+    })
+
+    return [...packed, ...oversized]
+}
+
+/**
+ * Split units into packages.
+ *
+ * With a box catalog, units are bin-packed into the smallest fitting boxes.
+ * Without one, first-fit decreasing on weight is used and a unit heavier than
+ * `maxWeight` ships alone in its own package.
+ */
+export function packUnits(units: PackageUnit[], options: PackUnitsOptions = {}): ShipmentPackage[] {
+    if (!units.length) return []
+
+    const maxWeight = options.maxWeight
+    if (options.boxes?.length) {
+        return packIntoBoxes(units, options.boxes, maxWeight)
+    }
+
+    if (!maxWeight || maxWeight <= 0) {
+        return [stackUnits(units)]
+    }
+
+    const bins: { weight: number; units: PackageUnit[] }[] = []
+    const sorted = [...units].sort((a, b) => b.weight - a.weight)
+
+    for (const unit of sorted) {
+        const bin = bins.find((b) => b.weight + unit.weight <= maxWeight)
+        if (bin) {
+            bin.weight += unit.weight
+            bin.units.push(unit)
+        } else {
+            bins.push({ weight: unit.weight, units: [unit] })
+        }
+    }
+
+    return bins.map((bin) => stackUnits(bin.units))
+}
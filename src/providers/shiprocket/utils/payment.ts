@@ -0,0 +1,99 @@
+/**
+ * Payment utilities for Shiprocket shipments
+ * Decides between Prepaid and COD shipments and how much the courier collects
+ */
+
+/**
+ * Metadata key holding the COD payment of an order. Set on the fulfillment by whoever creates
+ * it, from the order's payment collections at that time, and kept on the order by the
+ * order-placed and payment-captured subscribers for fulfillments created without it.
+ */
+export const SHIPROCKET_COD_METADATA_KEY = "shiprocket_cod"
+
+/**
+ * Payment providers treated as Cash on Delivery unless overridden
+ * with SHIPROCKET_COD_PAYMENT_PROVIDERS (comma separated provider ids)
+ */
+const DEFAULT_COD_PAYMENT_PROVIDERS = ["pp_system_default"]
+
+export type ShiprocketCodMetadata = {
+    /** Amount still owed by the customer, 0 when nothing is collected on delivery */
+    collectable_amount: number
+    payment_provider_id?: string
+    /** When the payment collections were last checked */
+    checked_at?: string
+}
+
+export type ShipmentPayment = {
+    payment_method: "Prepaid" | "COD"
+    /** Order balance not yet paid by the customer */
+    outstanding_amount: number
+    /** Amount the courier collects at the door, including COD charges */
+    collectable_amount: number
+    cod_charges: number
+}
+
+/**
+ * Get the payment provider ids treated as Cash on Delivery
+ */
+export function getCodPaymentProviders(): string[] {
+    const configured = process.env.SHIPROCKET_COD_PAYMENT_PROVIDERS
+    if (!configured) return DEFAULT_COD_PAYMENT_PROVIDERS
+
+    return configured
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+}
+
+/**
+ * COD payment of an order from its payment collections: the order total less what was
+ * captured, when a COD payment (see SHIPROCKET_COD_PAYMENT_PROVIDERS) is still uncaptured
+ * @param order - Order with `total` and `payment_collections` (status, captured amount, sessions)
+ */
+export function getCodPayment(order: any, codProviders: string[] = getCodPaymentProviders()): ShiprocketCodMetadata {
+    const checkedAt = new Date().toISOString()
+    const collections = ((order?.payment_collections || []) as any[]).filter(Boolean)
+
+    const codSession = collections
+        .filter((collection) => collection.status !== "completed")
+        .flatMap((collection) => (collection.payment_sessions || []) as any[])
+        .find((session) => codProviders.includes(session?.provider_id))
+    if (!codSession) {
+        return { collectable_amount: 0, checked_at: checkedAt }
+    }
+
+    const captured = collections.reduce(
+        (sum, collection) => sum + Number(collection.captured_amount || 0),
+        0
+    )
+    return {
+        collectable_amount: Math.max(0, Math.round((Number(order.total || 0) - captured) * 100) / 100),
+        payment_provider_id: codSession.provider_id,
+        checked_at: checkedAt,
+    }
+}
+
+/**
+ * Resolve how a shipment is paid for. The COD payment passed in the fulfillment metadata
+ * wins, as it was checked when the fulfillment was created; the order's copy may be older.
+ * @param order - Order as received by `createFulfillment` (metadata must be included)
+ * @param codCharges - Flat COD handling fee added to the collectable amount
+ * @param fulfillment - Fulfillment as received by `createFulfillment`
+ */
+export function resolveShipmentPayment(order: any, codCharges: number = 0, fulfillment?: any): ShipmentPayment {
+    const cod = (fulfillment?.metadata?.[SHIPROCKET_COD_METADATA_KEY] ||
+        order?.metadata?.[SHIPROCKET_COD_METADATA_KEY]) as ShiprocketCodMetadata | undefined
+    const outstanding = Number(cod?.collectable_amount || 0)
+
+    if (!cod || outstanding <= 0) {
+        return { payment_method: "Prepaid", outstanding_amount: 0, collectable_amount: 0, cod_charges: 0 }
+    }
+
+    return {
+        payment_method: "COD",
+        outstanding_amount: outstanding,
+        collectable_amount: outstanding + codCharges,
+        cod_charges: codCharges,
+    }
+}
@@ -0,0 +1,124 @@
+import { MedusaError } from "@medusajs/utils"
+
+/**
+ * Shipping price rules applied on top of the courier rate
+ * Configured per shipping option in its `data.pricing`
+ */
+
+/**
+ * Fixed price for carts up to a weight (kg), charged as is instead of the courier rate
+ */
+export type WeightSlab = {
+    max_weight: number
+    amount: number
+}
+
+export type ShippingPricingRules = {
+    /** Percentage added to the courier rate, e.g. 15 for +15% */
+    markup_percent?: number
+    /** Flat amount added after the markup */
+    handling_fee?: number
+    /** Cart subtotal at or above which shipping is free */
+    free_shipping_threshold?: number
+    /** Weight slabs overriding the courier rate; the first slab the cart weight fits in wins */
+    weight_slabs?: WeightSlab[]
+    /** Round the final price to the nearest multiple, e.g. 5 or 10 */
+    round_to?: number
+}
+
+export type ShippingPriceBreakdown = {
+    /** Price charged to the customer */
+    amount: number
+    /** Raw courier rate, kept for margin reporting */
+    courier_rate: number
+    /** amount - courier_rate */
+    margin: number
+    free_shipping: boolean
+    weight_slab?: WeightSlab
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value) && value >= 0
+}
+
+/**
+ * Read and validate the pricing rules of a shipping option.
+ * Returns an empty rule set when none are configured.
+ */
+export function getPricingRules(optionData?: Record<string, unknown> | null): ShippingPricingRules {
+    const rules = optionData?.pricing as ShippingPricingRules | undefined
+    if (rules === undefined || rules === null) return {}
+
+    const invalid = (message: string) =>
+        new MedusaError(MedusaError.Types.INVALID_DATA, `Invalid Shiprocket pricing rules: ${message}`)
+
+    if (typeof rules !== "object" || Array.isArray(rules)) {
+        throw invalid("'pricing' must be an object")
+    }
+    for (const key of ["markup_percent", "handling_fee", "free_shipping_threshold"] as const) {
+        if (rules[key] !== undefined && !isNonNegativeNumber(rules[key])) {
+            throw invalid(`'${key}' must be a non-negative number`)
+        }
+    }
+    if (rules.round_to !== undefined && (!isNonNegativeNumber(rules.round_to) || rules.round_to === 0)) {
+        throw invalid("'round_to' must be a positive number")
+    }
+    if (rules.weight_slabs !== undefined) {
+        if (!Array.isArray(rules.weight_slabs)) {
+            throw invalid("'weight_slabs' must be an array")
+        }
+        for (const slab of rules.weight_slabs) {
+            if (!isNonNegativeNumber(slab?.max_weight) || !isNonNegativeNumber(slab?.amount)) {
+                throw invalid("each weight slab requires a non-negative 'max_weight' (kg) and 'amount'")
+            }
+        }
+    }
+
+    return rules
+}
+
+/**
+ * Price a shipment from the courier rate.
+ *
+ * Order of evaluation: free shipping threshold, then the weight slab the cart fits in, whose
+ * fixed price is final. Otherwise the courier rate gets the markup, handling fee, then rounding.
+ */
+export function applyPricingRules(
+    courierRate: number,
+    cart: { subtotal: number; weight: number },
+    rules: ShippingPricingRules = {}
+): ShippingPriceBreakdown {
+    const breakdown = (amount: number, extra: Partial<ShippingPriceBreakdown> = {}): ShippingPriceBreakdown => ({
+        amount,
+        courier_rate: courierRate,
+        margin: Math.round((amount - courierRate) * 100) / 100,
+        free_shipping: false,
+        ...extra,
+    })
+
+    if (rules.free_shipping_threshold !== undefined && cart.subtotal >= rules.free_shipping_threshold) {
+        return breakdown(0, { free_shipping: true })
+    }
+
+    const slab = [...(rules.weight_slabs || [])]
+        .sort((a, b) => a.max_weight - b.max_weight)
+        .find((s) => cart.weight <= s.max_weight)
+
+    if (slab) {
+        return breakdown(slab.amount, { weight_slab: slab })
+    }
+
+    let amount = courierRate
+    if (rules.markup_percent) {
+        amount += amount * rules.markup_percent / 100
+    }
+    if (rules.handling_fee) {
+        amount += rules.handling_fee
+    }
+
+    amount = rules.round_to
+        ? Math.round(amount / rules.round_to) * rules.round_to
+        : Math.ceil(amount)
+
+    return breakdown(amount)
+}
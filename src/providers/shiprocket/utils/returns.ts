@@ -0,0 +1,41 @@
+import type { ShiprocketReturnQc } from "../client/types"
+
+/**
+ * Return utilities for Shiprocket reverse pickups
+ * Builds the quality check details of returned items from the Medusa order and return
+ */
+
+/**
+ * Return item metadata key for an image of the item to check against, overriding the product image
+ */
+export const QC_IMAGE_METADATA_KEY = "qc_image"
+
+/**
+ * Value of a variant option by option title, e.g. "Color" or "Size"
+ */
+export function getVariantOptionValue(variant: any, titles: string[]): string | undefined {
+    const wanted = titles.map((title) => title.toLowerCase())
+    const option = (variant?.options || []).find((value: any) =>
+        wanted.includes(String(value?.option?.title || "").toLowerCase())
+    )
+    return option?.value || undefined
+}
+
+/**
+ * QC details of a returned item: the return reason and what the courier should expect to collect
+ */
+export function buildReturnQc(orderItem: any, returnItem?: any): ShiprocketReturnQc {
+    const variant = orderItem?.variant || {}
+    const product = variant.product || {}
+    const reason = [returnItem?.reason?.label, returnItem?.note].filter(Boolean).join(": ")
+
+    return {
+        reason: reason || undefined,
+        product_image: returnItem?.metadata?.[QC_IMAGE_METADATA_KEY] ||
+            variant.thumbnail || orderItem?.thumbnail || product.thumbnail || undefined,
+        brand: (product.metadata?.brand as string) || undefined,
+        color: getVariantOptionValue(variant, ["color", "colour"]),
+        size: getVariantOptionValue(variant, ["size"]),
+        ean_barcode: variant.ean || variant.upc || variant.barcode || undefined,
+    }
+}
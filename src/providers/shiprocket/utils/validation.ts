@@ -101,3 +101,121 @@ export function requireField<T>(value: T | null | undefined, fieldName: string):
     }
     return value
 }
+
+/**
+ * Whether an address is in India (no country is treated as India)
+ * @param countryCode - ISO 3166-1 alpha-2 country code
+ */
+export function isDomesticCountry(countryCode?: string | null): boolean {
+    return !countryCode || countryCode.toLowerCase() === "in"
+}
+
+/**
+ * International dialing codes for common destinations, used when a phone number
+ * is given without a leading "+"
+ */
+const COUNTRY_CALLING_CODES: Record<string, string> = {
+    ae: "971", au: "61", bd: "880", be: "32", ca: "1", ch: "41", de: "49", dk: "45",
+    es: "34", fr: "33", gb: "44", hk: "852", ie: "353", it: "39", jp: "81", kw: "965",
+    lk: "94", my: "60", nl: "31", no: "47", np: "977", nz: "64", om: "968", ph: "63",
+    qa: "974", sa: "966", se: "46", sg: "65", th: "66", us: "1", za: "27",
+}
+
+/**
+ * Sanitize and validate an international phone number into E.164 format
+ * @param phone - Phone number, with or without "+" and country code
+ * @param countryCode - ISO 3166-1 alpha-2 country code of the address
+ * @param fieldName - Field name for error messages
+ * @returns Phone number in E.164 format, e.g. "+14155550123"
+ * @throws MedusaError if phone is invalid
+ */
+export function validateAndSanitizeE164Phone(phone: string, countryCode: string, fieldName: string = "Phone"): string {
+    if (!phone) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `${fieldName} is required`
+        )
+    }
+
+    const raw = phone.toString().trim()
+    let digits = raw.replace(/[^0-9]/g, "")
+
+    if (raw.startsWith("00")) {
+        digits = digits.slice(2)
+    } else if (!raw.startsWith("+")) {
+        const callingCode = COUNTRY_CALLING_CODES[countryCode.toLowerCase()]
+        if (!callingCode) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `${fieldName} must include the country code (e.g. +44...) for ${countryCode.toUpperCase()}: ${phone}`
+            )
+        }
+        // Drop the national trunk prefix (e.g. 07700... in the UK)
+        digits = callingCode + digits.replace(/^0+/, "")
+    }
+
+    // E.164 allows at most 15 digits including the country code
+    if (digits.length < 8 || digits.length > 15) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `${fieldName} is not a valid international number: ${phone}`
+        )
+    }
+
+    return `+${digits}`
+}
+
+/**
+ * Postcode formats by country. Countries not listed accept 2-10 letters, digits, spaces or dashes.
+ */
+const POSTCODE_PATTERNS: Record<string, RegExp> = {
+    au: /^\d{4}$/,
+    ca: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+    de: /^\d{5}$/,
+    fr: /^\d{5}$/,
+    gb: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    in: /^\d{6}$/,
+    jp: /^\d{3}-?\d{4}$/,
+    nl: /^\d{4} ?[A-Z]{2}$/,
+    sg: /^\d{6}$/,
+    us: /^\d{5}(-\d{4})?$/,
+}
+
+/**
+ * Countries without postcodes
+ */
+const COUNTRIES_WITHOUT_POSTCODES = ["ae", "hk", "qa"]
+
+/**
+ * Sanitize and validate a postcode for a country
+ * @param postcode - Postcode string
+ * @param countryCode - ISO 3166-1 alpha-2 country code
+ * @param fieldName - Field name for error messages
+ * @returns Upper-cased, trimmed postcode ("" for countries without postcodes)
+ * @throws MedusaError if postcode is invalid for the country
+ */
+export function validateAndSanitizePostcode(postcode: string, countryCode: string, fieldName: string = "Postcode"): string {
+    const country = countryCode.toLowerCase()
+    const cleaned = (postcode || "").toString().trim().toUpperCase().replace(/\s+/g, " ")
+
+    if (COUNTRIES_WITHOUT_POSTCODES.includes(country)) {
+        return cleaned
+    }
+
+    if (!cleaned) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `${fieldName} is required`
+        )
+    }
+
+    const pattern = POSTCODE_PATTERNS[country] || /^[A-Z0-9][A-Z0-9 -]{1,9}$/
+    if (!pattern.test(cleaned)) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `${fieldName} is not a valid ${country.toUpperCase()} postcode: ${postcode}`
+        )
+    }
+
+    return cleaned
+}
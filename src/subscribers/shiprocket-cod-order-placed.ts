@@ -0,0 +1,29 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { refreshOrderCodPayment } from "../lib/payments"
+
+/**
+ * Subscriber that flags Cash on Delivery orders for Shiprocket.
+ *
+ * When an order is placed with an uncaptured COD payment (see SHIPROCKET_COD_PAYMENT_PROVIDERS)
+ * the outstanding balance is stored in order metadata. Fulfillments created from the admin
+ * check the payment collections again; the metadata covers fulfillments created otherwise.
+ */
+export default async function shiprocketCodOrderPlacedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ id: string }>) {
+    const logger = container.resolve("logger")
+
+    try {
+        const cod = await refreshOrderCodPayment(container, event.data.id)
+        if (cod.collectable_amount > 0) {
+            logger.info(`Shiprocket: Order ${event.data.id} flagged as COD, collectable amount ${cod.collectable_amount}`)
+        }
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to flag COD order ${event.data.id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "order.placed",
+}
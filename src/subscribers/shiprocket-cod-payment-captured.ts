@@ -0,0 +1,35 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { refreshOrderCodPayment } from "../lib/payments"
+
+/**
+ * Subscriber that updates the COD amount of an order once one of its payments is captured,
+ * e.g. manually in the admin, so later shipments don't collect it again.
+ */
+export default async function shiprocketCodPaymentCapturedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ id: string }>) {
+    const logger = container.resolve("logger")
+    const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+    try {
+        const { data: [payment] } = await query.graph({
+            entity: "payment",
+            fields: ["id", "payment_collection.order.id"],
+            filters: { id: event.data.id },
+        })
+
+        const orderId = (payment as any)?.payment_collection?.order?.id
+        if (!orderId) return
+
+        const cod = await refreshOrderCodPayment(container, orderId)
+        logger.info(`Shiprocket: Payment ${event.data.id} captured, order ${orderId} COD amount now ${cod.collectable_amount}`)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to update COD amount after payment ${event.data.id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "payment.captured",
+}
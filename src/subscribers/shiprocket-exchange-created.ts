@@ -0,0 +1,27 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { registerExchange } from "../lib/exchanges"
+
+/**
+ * Subscriber that ships both legs of an order exchange with Shiprocket.
+ *
+ * Books the reverse pickup of the returned items and flags the replacement items, so the
+ * fulfillment shipping them is linked to the exchange. With SHIPROCKET_EXCHANGE_HOLD the
+ * replacement's AWB waits until the returned item is picked up or passes QC.
+ * Failures can be retried with POST /admin/shiprocket/exchanges/:exchange_id.
+ */
+export default async function shiprocketExchangeCreatedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ order_id: string; exchange_id: string }>) {
+    const logger = container.resolve("logger")
+
+    try {
+        await registerExchange(container, event.data.exchange_id)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to register exchange ${event.data.exchange_id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "order.exchange_created",
+}
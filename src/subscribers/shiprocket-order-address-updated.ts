@@ -0,0 +1,26 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { syncShippingAddress } from "../lib/addresses"
+
+/**
+ * Subscriber that keeps Shiprocket orders on the order's current shipping address.
+ *
+ * Medusa emits order.updated for any order change, so this compares the shipping address
+ * with the one each Shiprocket order has. A changed address is pushed to shipments that
+ * haven't been picked up yet, moving them to another courier when the new pincode needs it.
+ */
+export default async function shiprocketOrderAddressUpdatedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ id: string }>) {
+    const logger = container.resolve("logger")
+
+    try {
+        await syncShippingAddress(container, event.data.id)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to update delivery address for order ${event.data.id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "order.updated",
+}
@@ -0,0 +1,28 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { createReturnShipment } from "../lib/returns"
+
+/**
+ * Subscriber that books the Shiprocket reverse pickup of a return.
+ *
+ * The fulfillment provider only receives the return fulfillment, without the order, so
+ * it registers the return as pending. Once the return is requested, this builds the
+ * return order from the customer address and the returned variants and assigns the
+ * reverse AWB. Failures are stored on the return fulfillment and can be retried with
+ * POST /admin/shiprocket/returns/:return_id.
+ */
+export default async function shiprocketReturnRequestedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ order_id: string; return_id: string }>) {
+    const logger = container.resolve("logger")
+
+    try {
+        await createReturnShipment(container, event.data.return_id)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to create reverse pickup for return ${event.data.return_id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "order.return_requested",
+}
@@ -0,0 +1,60 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { Modules } from "@medusajs/framework/utils"
+import { linkExchangeShipment } from "../lib/exchanges"
+import { isShiprocketFulfillment } from "../lib/fulfillments"
+
+const SHIPROCKET_TRACKING_MODULE = "shiprocketTrackingModuleService"
+
+/**
+ * Subscriber that records the creation progress of every Shiprocket shipment.
+ *
+ * The fulfillment provider cannot reach the database, so it reports its progress in the
+ * fulfillment `data` (`stage`). This stores it keyed by fulfillment id; unfinished shipments
+ * (AWB pending, label missing) are picked up by the retry-shiprocket-shipments job.
+ * Exchange replacements held for their reverse pickup wait for the exchange to be released.
+ */
+export default async function shiprocketShipmentCreatedHandler({
+    event,
+    container,
+}: SubscriberArgs<{ order_id: string; fulfillment_id: string }>) {
+    const logger = container.resolve("logger")
+
+    try {
+        const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+        const fulfillment = await fulfillmentModule.retrieveFulfillment(event.data.fulfillment_id)
+
+        if (!isShiprocketFulfillment(fulfillment)) return
+
+        const data = fulfillment.data as Record<string, any>
+        const stage = data.stage || (data.awb ? "awb_assigned" : "order_created")
+        const waiting = stage === "documents_ready" || stage === "on_hold"
+
+        const trackingService = container.resolve<any>(SHIPROCKET_TRACKING_MODULE)
+        await trackingService.upsertShipment({
+            medusa_fulfillment_id: fulfillment.id,
+            medusa_order_id: event.data.order_id,
+            sr_order_id: data.order_id ? String(data.order_id) : undefined,
+            shipment_id: data.shipment_id ? String(data.shipment_id) : undefined,
+            awb: data.awb || undefined,
+            courier_company_id: data.courier_company_id ? Number(data.courier_company_id) : undefined,
+            stage,
+            last_error: data.last_error || null,
+            // Unfinished shipments are retried right away by the next job run
+            next_attempt_at: waiting ? null : new Date(),
+        })
+
+        if (!waiting) {
+            logger.info(`Shiprocket: Fulfillment ${fulfillment.id} queued for retry at stage "${stage}"`)
+        }
+
+        if (data.exchange_id) {
+            await linkExchangeShipment(container, data.exchange_id, fulfillment.id)
+        }
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to record shipment for fulfillment ${event.data.fulfillment_id}: ${err.message}`)
+    }
+}
+
+export const config: SubscriberConfig = {
+    event: "order.fulfillment_created",
+}
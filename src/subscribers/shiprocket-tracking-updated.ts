@@ -1,21 +1,21 @@
 import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
-import { Modules } from "@medusajs/framework/utils"
+import { updateExchangeReverseLeg } from "../lib/exchanges"
+import { syncFulfillmentLifecycle } from "../lib/lifecycle"
+import { isRtoDelivered, receiveRtoShipment } from "../lib/rto"
+import { TRACKING_UPDATED_EVENT, TrackingUpdatedEvent } from "../lib/tracking"
 
 /**
  * Subscriber for Shiprocket tracking updates.
  * 
- * Listens to shiprocket.tracking.updated event emitted by the webhook handler.
- * Can be used to sync fulfillment status in Medusa when shipment is delivered.
+ * Listens to shiprocket.tracking.updated event emitted by the webhook handler and the admin tracking sync.
+ * Picked up shipments mark their Medusa fulfillment shipped, delivered ones mark it delivered.
+ * Reverse pickups of exchanges release their held replacement once far enough along.
+ * Shipments delivered back to origin (RTO) are received as a Medusa return and restocked.
  */
 export default async function shiprocketTrackingUpdatedHandler({
     event,
     container,
-}: SubscriberArgs<{
-    awb: string
-    tracking_id: string
-    current_status: string
-    shipment_status_id: number
-}>) {
+}: SubscriberArgs<TrackingUpdatedEvent>) {
     const logger = container.resolve("logger")
     const { awb, current_status, shipment_status_id } = event.data
 
@@ -23,23 +23,27 @@ export default async function shiprocketTrackingUpdatedHandler({
         `Shiprocket tracking subscriber: AWB ${awb} status updated to ${current_status}`
     )
 
-    // Shiprocket status IDs:
-    // 7 = DELIVERED
-    // 8 = DELIVERY ATTEMPTED
-    // 9 = RTO INITIATED
-    // 10 = RTO DELIVERED
-    const DELIVERED_STATUS_ID = 7
+    try {
+        await syncFulfillmentLifecycle(container, awb)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to update fulfillment of AWB ${awb}: ${err.message}`)
+    }
 
-    if (shipment_status_id === DELIVERED_STATUS_ID) {
-        logger.info(`Shiprocket: Shipment ${awb} marked as DELIVERED`)
+    if (isRtoDelivered(shipment_status_id, current_status)) {
+        try {
+            await receiveRtoShipment(container, awb)
+        } catch (err: any) {
+            logger.error(`Shiprocket: Failed to receive RTO of AWB ${awb} as a return: ${err.message}`)
+        }
+    }
 
-        // TODO: Optionally update Medusa fulfillment status
-        // This would require finding the fulfillment by AWB and updating it
-        // const fulfillmentService = container.resolve(Modules.FULFILLMENT)
-        // ... update fulfillment status
+    try {
+        await updateExchangeReverseLeg(container, awb, shipment_status_id, current_status)
+    } catch (err: any) {
+        logger.error(`Shiprocket: Failed to update exchange for reverse pickup ${awb}: ${err.message}`)
     }
 }
 
 export const config: SubscriberConfig = {
-    event: "shiprocket.tracking.updated",
+    event: TRACKING_UPDATED_EVENT,
 }